@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PromptExperimentService } from '@/lib/prompt-experiments';
+import { AdminAuth } from '@/lib/admin-auth';
+
+/**
+ * Prompt Experiment Report API Route
+ * Summarizes preview success, quality warnings and payment conversion per
+ * prompt variation. Requires the x-admin-secret header (open in development
+ * when ADMIN_API_SECRET is unset).
+ */
+
+export async function GET(request: NextRequest) {
+  if (!AdminAuth.isAdminRequest(request)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Not authorized to view experiment reports'
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      report: PromptExperimentService.getReport(),
+    });
+  } catch (error) {
+    console.error('Experiment report error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build experiment report'
+      },
+      { status: 500 }
+    );
+  }
+}
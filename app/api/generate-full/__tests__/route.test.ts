@@ -0,0 +1,273 @@
+import { POST, GET } from '../route';
+import { NextRequest } from 'next/server';
+import { retrievePaymentIntent } from '@/lib/stripe';
+import { GenerationStore } from '@/lib/generation-store';
+import { PromptExperimentService } from '@/lib/prompt-experiments';
+import { ExportService } from '@/lib/export-service';
+import { DownloadTokenService } from '@/lib/download-token';
+
+jest.mock('@/lib/env-validation', () => ({
+  env: {
+    getStripeConfig: () => ({ secretKey: 'sk_test_123' }),
+  },
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  retrievePaymentIntent: jest.fn(),
+}));
+
+jest.mock('@/lib/generation-store', () => ({
+  GenerationStore: {
+    get: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/prompt-experiments', () => ({
+  PromptExperimentService: {
+    recordConversion: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/forensic-watermark', () => ({
+  ForensicWatermarkService: {},
+}));
+
+jest.mock('@/lib/provenance', () => ({
+  ProvenanceService: {
+    embed: jest.fn((imageData: string) => ({ success: true, imageData })),
+  },
+}));
+
+jest.mock('@/lib/export-service', () => {
+  const { ExportService: ActualExportService } = jest.requireActual('@/lib/export-service');
+
+  return {
+    ExportService: {
+      resolveOptions: ActualExportService.resolveOptions.bind(ActualExportService),
+      export: jest.fn(async (
+        imageData: string,
+        options: Record<string, string>,
+        _provenance: unknown,
+        purchase?: unknown
+      ) => ({
+        success: true,
+        imageData,
+        mimeType: options.format === 'webp' ? 'image/webp' : 'image/jpeg',
+        fileName: `professional-portrait-${options.preset}.${options.format === 'webp' ? 'webp' : 'jpg'}`,
+        dimensions: options.preset === 'social' ? { width: 400, height: 400 } : { width: 2048, height: 2048 },
+        options,
+        forensicWatermark: !!purchase,
+      })),
+    },
+  };
+});
+
+// The model's native output is about 1024px square
+jest.mock('sharp', () => () => ({
+  metadata: jest.fn().mockResolvedValue({ width: 1024, height: 1024 }),
+  resize: jest.fn().mockReturnThis(),
+  png: jest.fn().mockReturnThis(),
+  toBuffer: jest.fn().mockResolvedValue(Buffer.from('fullsize')),
+}));
+
+// Requests come from the browser that checked out unless a token is given
+const createRequest = (query: string, token: string | null = DownloadTokenService.issue('pi_123')) =>
+  new NextRequest(`http://localhost:3000/api/generate-full${query}`, {
+    method: 'POST',
+    headers: token ? { cookie: `pb_download=${token}` } : {},
+  });
+
+const mockSucceededPayment = (metadata: Record<string, string> = { generationId: 'gen_123' }) => {
+  (retrievePaymentIntent as jest.Mock).mockResolvedValue({
+    success: true,
+    paymentIntent: { status: 'succeeded', amount_received: 799, metadata },
+  });
+};
+
+describe('/api/generate-full', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST', () => {
+    it('should return 403 without a download token, even with the payment intent ID', async () => {
+      const response = await POST(createRequest('?payment_intent=pi_123', null));
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toContain('No download token');
+      expect(retrievePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for expired or tampered download tokens', async () => {
+      const expired = DownloadTokenService.issue('pi_123', Date.now() - 2 * 60 * 60 * 1000);
+      const tampered = DownloadTokenService.issue('pi_123').replace('pi_123', 'pi_456');
+
+      expect((await POST(createRequest('', expired))).status).toBe(403);
+      expect((await POST(createRequest('', tampered))).status).toBe(403);
+      expect(retrievePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should verify the payment intent named in the token', async () => {
+      mockSucceededPayment({});
+
+      await POST(createRequest('', DownloadTokenService.issue('pi_789')));
+
+      expect(retrievePaymentIntent).toHaveBeenCalledWith('pi_789');
+    });
+
+    it('should return 402 when the payment has not succeeded', async () => {
+      (retrievePaymentIntent as jest.Mock).mockResolvedValue({
+        success: true,
+        paymentIntent: { status: 'requires_payment_method', amount_received: 0, metadata: {} },
+      });
+
+      const response = await POST(createRequest(''));
+      const data = await response.json();
+
+      expect(response.status).toBe(402);
+      expect(data.success).toBe(false);
+      expect(GenerationStore.get).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the payment is not linked to a generation', async () => {
+      mockSucceededPayment({});
+
+      const response = await POST(createRequest(''));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 410 when the stored generation has expired', async () => {
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue(null);
+
+      const response = await POST(createRequest(''));
+      const data = await response.json();
+
+      expect(response.status).toBe(410);
+      expect(data.error).toContain('expired');
+    });
+
+    it('should release the stored preview generation at its generated resolution', async () => {
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue({
+        id: 'gen_123',
+        imageData: 'originaldata',
+        useCase: 'general',
+      });
+
+      const response = await POST(createRequest(''));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.generationId).toBe('gen_123');
+      expect(data.imageData).toBe(Buffer.from('fullsize').toString('base64'));
+      expect(data.metadata.watermarked).toBe(false);
+      expect(data.metadata.dimensions).toEqual({ width: 1024, height: 1024 });
+      expect(GenerationStore.get).toHaveBeenCalledWith('gen_123');
+    });
+
+    it('should crop to the use case aspect ratio without upscaling', async () => {
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue({
+        id: 'gen_123',
+        imageData: 'originaldata',
+        useCase: 'business-card',
+      });
+
+      const response = await POST(createRequest(''));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.dimensions).toEqual({ width: 768, height: 1024 });
+    });
+
+    it('should count the purchase toward the prompt experiment variant', async () => {
+      const experiment = {
+        experimentId: 'prompt-variation',
+        sessionId: 'session_123',
+        variant: 'creative',
+        exposureId: 'exposure_123',
+      };
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue({
+        id: 'gen_123',
+        imageData: 'originaldata',
+        useCase: 'general',
+        experiment,
+      });
+
+      const response = await POST(createRequest(''));
+
+      expect(response.status).toBe(200);
+      expect(PromptExperimentService.recordConversion).toHaveBeenCalledWith(experiment);
+    });
+
+    it('should export the full-size image marked with the purchase', async () => {
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue({
+        id: 'gen_123',
+        imageData: 'originaldata',
+        useCase: 'general',
+      });
+
+      const response = await POST(createRequest(''));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.forensicWatermark).toBe(true);
+      expect(ExportService.export).toHaveBeenCalledWith(
+        Buffer.from('fullsize').toString('base64'),
+        { format: 'jpeg', preset: '2048', quality: 'high' },
+        expect.objectContaining({ generationId: 'gen_123', kind: 'full' }),
+        { paymentIntentId: 'pi_123' }
+      );
+    });
+  });
+
+  describe('export options', () => {
+    it('should reject unknown formats before verifying payment', async () => {
+      const response = await POST(createRequest('?format=gif'));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Unsupported format: gif');
+      expect(retrievePaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should export the requested format and size', async () => {
+      mockSucceededPayment();
+      (GenerationStore.get as jest.Mock).mockReturnValue({
+        id: 'gen_123',
+        imageData: 'originaldata',
+        useCase: 'general',
+      });
+
+      const response = await POST(createRequest('?format=webp&preset=social&quality=small'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.imageUrl.startsWith('data:image/webp;base64,')).toBe(true);
+      expect(data.export).toEqual({
+        format: 'webp',
+        preset: 'social',
+        quality: 'small',
+        mimeType: 'image/webp',
+        fileName: 'professional-portrait-social.webp',
+        dimensions: { width: 400, height: 400 },
+      });
+    });
+  });
+
+  describe('GET', () => {
+    it('should return health check', async () => {
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.service).toBe('full-generation');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { retrievePaymentIntent } from '@/lib/stripe';
+import { GenerationStore } from '@/lib/generation-store';
+import { PromptExperimentService } from '@/lib/prompt-experiments';
+import { DownloadTokenService } from '@/lib/download-token';
+import { ExportService, ExportOptions } from '@/lib/export-service';
+import { OutputGeometry, Dimensions } from '@/lib/output-geometry';
+import { GENERATION_CONFIG, PRICING_CONFIG } from '@/lib/constants';
+import { UseCase } from '@/types';
+
+/**
+ * Full Generation API Route
+ * Releases the unwatermarked full-size version of the previewed portrait
+ * (the generated resolution in the use case's aspect ratio, never upscaled
+ * and at most 2048px on the long edge) once payment
+ * has been verified, to the browser that checked out (see
+ * DownloadTokenService). Downloads carry an invisible forensic watermark that
+ * ties them to the purchase and provenance metadata labeling them as
+ * AI-generated. Optional format, preset and quality query parameters export
+ * it as JPEG, PNG, WebP or AVIF at a preset size; the defaults deliver the
+ * full-size JPEG.
+ */
+
+export interface FullGenerationResponse {
+  success: boolean;
+  generationId?: string;
+  imageUrl?: string;
+  imageData?: string;
+  metadata?: {
+    generationTime: number;
+    cost: number;
+    dimensions: { width: number; height: number };
+    quality: 'high' | 'medium' | 'low';
+    watermarked: boolean;
+    forensicWatermark: boolean; // Invisible purchase mark, see /api/watermark/verify
+  };
+  export?: ExportOptions & {
+    mimeType: string;
+    fileName: string;
+    dimensions: { width: number; height: number };
+  };
+  error?: string;
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Only release to the browser that checked out, never to a bare payment intent ID
+    const download = DownloadTokenService.fromRequest(request);
+    if (!download.valid || !download.paymentIntentId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${download.error}. Downloads are available for an hour after checkout, in the browser used to pay. Please contact support.`
+        },
+        { status: 403 }
+      );
+    }
+    const { paymentIntentId } = download;
+
+    const exportRequest = ExportService.resolveOptions({
+      format: request.nextUrl.searchParams.get('format'),
+      preset: request.nextUrl.searchParams.get('preset'),
+      quality: request.nextUrl.searchParams.get('quality'),
+    });
+    if (!exportRequest.success || !exportRequest.options) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: exportRequest.error || 'Invalid export options'
+        },
+        { status: 400 }
+      );
+    }
+
+    const paymentResult = await retrievePaymentIntent(paymentIntentId);
+    if (!paymentResult.success || !paymentResult.paymentIntent) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Unable to verify payment. Please contact support.'
+        },
+        { status: 402 }
+      );
+    }
+
+    const { paymentIntent } = paymentResult;
+    if (paymentIntent.status !== 'succeeded') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Payment has not completed (status: ${paymentIntent.status})`
+        },
+        { status: 402 }
+      );
+    }
+
+    if (paymentIntent.amount_received < PRICING_CONFIG.DOWNLOAD_PRICE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment amount does not cover a full-resolution download'
+        },
+        { status: 402 }
+      );
+    }
+
+    // Release exactly the generation the customer previewed
+    const generationId = paymentIntent.metadata?.generationId;
+    if (!generationId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'This payment is not linked to a previewed portrait. Please contact support.'
+        },
+        { status: 404 }
+      );
+    }
+
+    const storedGeneration = GenerationStore.get(generationId);
+    if (!storedGeneration) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Your previewed portrait has expired. Please contact support.'
+        },
+        { status: 410 }
+      );
+    }
+
+    // Deliver the model's native resolution; upscaling would only add blur
+    const { imageData: fullImageData, dimensions } = await cropToFullSize(
+      storedGeneration.imageData,
+      storedGeneration.useCase
+    );
+
+    // Render the requested format and size, marked with this purchase at that size
+    const exported = await ExportService.export(
+      fullImageData,
+      exportRequest.options,
+      {
+        generationId: storedGeneration.id,
+        kind: 'full',
+        model: storedGeneration.model,
+      },
+      { paymentIntentId }
+    );
+    if (!exported.success || !exported.imageData) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to export your portrait: ${exported.error || 'unknown error'}`
+        },
+        { status: 500 }
+      );
+    }
+
+    // Count the purchase toward the prompt variant that produced the preview
+    PromptExperimentService.recordConversion(storedGeneration.experiment);
+
+    return NextResponse.json({
+      success: true,
+      generationId: storedGeneration.id,
+      imageUrl: `data:${exported.mimeType};base64,${exported.imageData}`,
+      imageData: exported.imageData,
+      metadata: {
+        generationTime: Date.now() - startTime,
+        cost: 0, // Released from the stored preview generation, no new model call
+        dimensions,
+        quality: 'high',
+        watermarked: false,
+        forensicWatermark: !!exported.forensicWatermark,
+      },
+      export: {
+        ...exportRequest.options,
+        mimeType: exported.mimeType,
+        fileName: exported.fileName,
+        dimensions: exported.dimensions,
+      },
+    });
+
+  } catch (error) {
+    console.error('Full generation error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Full generation failed: ${errorMessage}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Crop generated image data to the use case's aspect ratio, shrinking it to the
+ * full-size long edge if needed but never enlarging it. Kept as lossless PNG so
+ * the export is the only lossy encode.
+ */
+async function cropToFullSize(
+  imageData: string,
+  useCase: UseCase
+): Promise<{ imageData: string; dimensions: Dimensions }> {
+  const input = Buffer.from(imageData.replace(/^data:image\/[a-z]+;base64,/, ''), 'base64');
+  const metadata = await sharp(input).metadata();
+  const dimensions = OutputGeometry.limitLongEdge(
+    OutputGeometry.getLargestCrop(useCase, { width: metadata.width || 0, height: metadata.height || 0 }),
+    GENERATION_CONFIG.FULL_SIZE
+  );
+
+  const buffer = await sharp(input)
+    .resize(dimensions.width, dimensions.height, {
+      fit: 'cover',
+      position: 'attention',
+    })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+
+  return { imageData: buffer.toString('base64'), dimensions };
+}
+
+/**
+ * GET endpoint for health check
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: 'healthy',
+    service: 'full-generation',
+    timestamp: new Date().toISOString(),
+  });
+}
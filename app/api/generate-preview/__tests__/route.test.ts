@@ -6,6 +6,10 @@ import { AIResponseHandler } from '@/lib/ai-response-handler';
 import { PromptBuilder } from '@/lib/prompt-builder';
 import { aiService } from '@/lib/ai-service';
 import { WatermarkService } from '@/lib/watermark';
+import { ProvenanceService } from '@/lib/provenance';
+import { GenerationStore } from '@/lib/generation-store';
+import { GenerationCache } from '@/lib/generation-cache';
+import { ContentModerationService } from '@/lib/content-moderation';
 
 // Mock the AI service and utilities
 jest.mock('@/lib/ai-service', () => ({
@@ -25,11 +29,18 @@ jest.mock('@/lib/ai-utils', () => ({
     createMetrics: jest.fn(),
     logMetrics: jest.fn(),
   },
+  PromptUtils: {
+    validatePrompt: jest.fn(() => ({ isValid: true, errors: [], warnings: [] })),
+  },
 }));
 
 jest.mock('@/lib/prompt-builder', () => ({
   PromptBuilder: {
     buildPrompt: jest.fn(),
+    renderPromptForUseCase: jest.fn(() => ({
+      text: 'Test prompt',
+      template: { id: 'portrait-detailed', version: 1, hash: 'test-hash' },
+    })),
     validateContext: jest.fn(),
   },
 }));
@@ -40,9 +51,48 @@ jest.mock('@/lib/watermark', () => ({
   },
 }));
 
+jest.mock('@/lib/provenance', () => ({
+  ProvenanceService: {
+    embed: jest.fn((imageData: string) => ({ success: true, imageData })),
+  },
+}));
+
+jest.mock('@/lib/generation-store', () => ({
+  GenerationStore: {
+    save: jest.fn(() => ({ id: 'gen_123' })),
+  },
+}));
+
+jest.mock('@/lib/generation-cache', () => ({
+  GenerationCache: {
+    createKey: jest.fn(() => 'cache_key'),
+    get: jest.fn(() => null),
+    set: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/content-moderation', () => ({
+  ContentModerationService: {
+    moderate: jest.fn(async () => ({ decision: 'allow', reasons: [], classifier: 'rules' })),
+  },
+}));
+
+jest.mock('@/lib/image-preprocessing', () => ({
+  ImagePreprocessor: {
+    preprocess: jest.fn(async (imageData: string) => ({
+      success: true,
+      imageData,
+      mimeType: 'image/jpeg',
+      dimensions: { width: 512, height: 512 },
+      changes: [],
+    })),
+  },
+}));
+
 jest.mock('@/lib/rate-limit', () => ({
   RateLimitService: {
     checkRateLimit: jest.fn(),
+    checkModerationLimit: jest.fn(() => ({ allowed: true, remaining: 9, resetTime: Date.now() + 3600000 })),
   },
 }));
 
@@ -190,9 +240,340 @@ describe('/api/generate-preview', () => {
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
+      expect(data.generationId).toBe('gen_123');
       expect(data.previewUrl).toBeDefined();
       expect(data.imageData).toBe('watermarkeddata');
       expect(data.metadata.watermarked).toBe(true);
+      expect(ProvenanceService.embed).toHaveBeenCalledWith('watermarkeddata', expect.objectContaining({
+        generationId: 'gen_123',
+        kind: 'preview',
+        actions: ['c2pa.watermarked'],
+      }));
+    });
+
+    it('should return one watermarked candidate per requested count', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+
+      PromptBuilder.buildPrompt.mockReturnValue({
+        detailed: 'Test prompt',
+      });
+
+      PromptBuilder.validateContext.mockReturnValue({
+        isValid: true,
+        errors: [],
+      });
+
+      aiService.generatePortrait.mockResolvedValue({
+        success: true,
+        imageData: 'base64data',
+      });
+
+      AIResponseHandler.processResponse.mockResolvedValue({
+        success: true,
+        imageData: 'base64data',
+        metadata: {
+          dimensions: { width: 512, height: 512 },
+          quality: 'high',
+        },
+      });
+
+      WatermarkService.addPreviewWatermark.mockResolvedValue({
+        success: true,
+        imageData: 'watermarkeddata',
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: {
+            id: 'test',
+            base64Data: 'base64data',
+            dimensions: { width: 512, height: 512 },
+            size: 1024,
+            type: 'image/jpeg',
+          },
+          options: { style: 'professional', background: 'office' },
+          candidateCount: 3,
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.candidates).toHaveLength(3);
+      expect(aiService.generatePortrait).toHaveBeenCalledTimes(3);
+      expect(data.candidates[0].metadata.watermarked).toBe(true);
+    });
+
+    it('should record the prompt template that produced each generation', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+      PromptBuilder.validateContext.mockReturnValue({ isValid: true, errors: [] });
+      aiService.generatePortrait.mockResolvedValue({ success: true, imageData: 'base64data' });
+      AIResponseHandler.processResponse.mockResolvedValue({
+        success: true,
+        imageData: 'base64data',
+        metadata: { dimensions: { width: 512, height: 512 }, quality: 'high' },
+      });
+      WatermarkService.addPreviewWatermark.mockResolvedValue({ success: true, imageData: 'watermarkeddata' });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+      const template = { id: 'portrait-detailed', version: 1, hash: 'test-hash' };
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.promptTemplate).toEqual(template);
+      expect(GenerationStore.save).toHaveBeenCalledWith(expect.objectContaining({
+        prompt: 'Test prompt',
+        promptTemplate: template,
+      }));
+    });
+
+    it('should return 400 for an out-of-range candidate count', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+          candidateCount: 10,
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('candidateCount');
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should pass reference photos to the model alongside the main photo', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+      PromptBuilder.validateContext.mockReturnValue({ isValid: true, errors: [] });
+      aiService.generatePortrait.mockResolvedValue({
+        success: false,
+        error: 'Stop after the model call',
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          referenceImages: [
+            { id: 'ref1', base64Data: 'reference1', type: 'image/jpeg' },
+            { id: 'ref2', base64Data: 'reference2', type: 'image/jpeg' },
+          ],
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      await POST(request);
+
+      expect(PromptBuilder.renderPromptForUseCase).toHaveBeenCalledWith(
+        'general',
+        expect.objectContaining({ referencePhotos: 3 }),
+        'detailed'
+      );
+      expect(aiService.generatePortrait).toHaveBeenCalledWith(expect.objectContaining({
+        referenceImages: [
+          { data: 'reference1', mimeType: 'image/jpeg' },
+          { data: 'reference2', mimeType: 'image/jpeg' },
+        ],
+      }));
+    });
+
+    it('should return 400 for more reference photos than allowed', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+
+      const reference = { id: 'ref', base64Data: 'reference', type: 'image/jpeg' };
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          referenceImages: Array.from({ length: 5 }, () => reference),
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('referenceImages');
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a custom background without a background image', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'custom' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('backgroundImage');
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should serve repeat requests from the cache without charging the rate limit', async () => {
+      GenerationCache.get.mockReturnValueOnce({
+        success: true,
+        generationId: 'gen_cached',
+        imageData: 'watermarkeddata',
+        candidates: [],
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-Cache')).toBe('HIT');
+      expect(data.generationId).toBe('gen_cached');
+      expect(data.cached).toBe(true);
+      expect(RateLimitService.checkRateLimit).not.toHaveBeenCalled();
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should skip the cache when a new variation is requested', async () => {
+      RateLimitService.checkRateLimit.mockReturnValue({
+        allowed: true,
+        remaining: 2,
+        resetTime: Date.now() + 3600000,
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+          newVariation: true,
+        }),
+      });
+
+      await POST(request);
+
+      expect(GenerationCache.get).not.toHaveBeenCalled();
+      expect(RateLimitService.checkRateLimit).toHaveBeenCalled();
+    });
+
+    it('should reject denied uploads without charging the rate limit', async () => {
+      ContentModerationService.moderate.mockResolvedValueOnce({
+        decision: 'deny',
+        reasons: [{ category: 'explicit', decision: 'deny', message: 'Photo contains explicit content' }],
+        classifier: 'rules',
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Photo contains explicit content');
+      expect(data.moderation.decision).toBe('deny');
+      expect(RateLimitService.checkRateLimit).not.toHaveBeenCalled();
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should hold uploads flagged for review without generating', async () => {
+      ContentModerationService.moderate.mockResolvedValueOnce({
+        decision: 'review',
+        reasons: [{ category: 'public-figure', decision: 'review', message: 'Photo appears to show a public figure' }],
+        classifier: 'gemini',
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('needs a manual review');
+      expect(data.moderation.decision).toBe('review');
+      expect(aiService.generatePortrait).not.toHaveBeenCalled();
+    });
+
+    it('should not screen uploads once the screening limit is used up', async () => {
+      RateLimitService.checkModerationLimit.mockReturnValueOnce({
+        allowed: false,
+        remaining: 0,
+        resetTime: Date.now() + 3600000,
+        retryAfter: 3600,
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/generate-preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          image: { id: 'test', base64Data: 'base64data', type: 'image/jpeg' },
+          options: { style: 'professional', background: 'office' },
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(429);
+      expect(ContentModerationService.moderate).not.toHaveBeenCalled();
     });
 
     it('should handle AI service errors', async () => {
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GenerationJobService, GenerationJob } from '@/lib/generation-jobs';
+import { JOB_CONFIG } from '@/lib/constants';
+
+/**
+ * Generation Job Events API Route
+ * Streams job stage updates as server-sent events. Each `stage` event carries
+ * a job summary; the final `completed` or `failed` event also carries the result.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = GenerationJobService.get(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: 'Generation job not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      };
+
+      const handleUpdate = (current: GenerationJob) => {
+        if (current.status === 'completed') {
+          send('completed', { job: GenerationJobService.toSummary(current), result: current.result });
+          close();
+        } else if (current.status === 'failed') {
+          send('failed', { job: GenerationJobService.toSummary(current), error: current.error });
+          close();
+        } else {
+          send('stage', { job: GenerationJobService.toSummary(current) });
+        }
+      };
+
+      const unsubscribe = GenerationJobService.subscribe(jobId, handleUpdate);
+      const heartbeat = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        }
+      }, JOB_CONFIG.HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Send the current state immediately (the job may already be finished)
+      handleUpdate(job);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GenerationJobService } from '@/lib/generation-jobs';
+
+/**
+ * Generation Job Status API Route
+ * Returns the current stage of a job, plus the preview once it completes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = GenerationJobService.get(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: 'Generation job not found or expired' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    job: GenerationJobService.toSummary(job),
+    result: job.status === 'completed' ? job.result : undefined,
+  });
+}
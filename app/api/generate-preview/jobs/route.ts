@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { RateLimitResult, RateLimitService } from '@/lib/rate-limit';
+import { PreviewGenerationService, PreviewGenerationRequest } from '@/lib/preview-generation';
+import { PromptPolicy } from '@/lib/prompt-policy';
+import { PromptExperimentService } from '@/lib/prompt-experiments';
+import { GenerationJobService } from '@/lib/generation-jobs';
+
+/**
+ * Preview Generation Jobs API Route
+ * Queues a preview generation and returns a job ID immediately. Progress is
+ * available from /api/generate-preview/jobs/[jobId] (polling) and
+ * /api/generate-preview/jobs/[jobId]/events (server-sent events).
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body: PreviewGenerationRequest = await request.json();
+
+    // Only trusted callers may replace the built prompt; the session picks the prompt variant
+    const session = PromptExperimentService.getSession(request);
+    const context = {
+      allowPromptOverride: PromptPolicy.isTrustedRequest(request),
+      sessionId: session.id,
+    };
+
+    // Identical repeat requests complete from the cache without charging a rate limit attempt
+    const cached = PreviewGenerationService.getCachedResult(body, context);
+    if (cached) {
+      const job = GenerationJobService.create();
+      await GenerationJobService.run(job.id, async () => ({ status: 200, body: cached }));
+
+      const response = NextResponse.json(
+        {
+          success: true,
+          jobId: job.id,
+          status: 'completed',
+          cached: true,
+          statusUrl: `/api/generate-preview/jobs/${job.id}`,
+          eventsUrl: `/api/generate-preview/jobs/${job.id}/events`,
+        },
+        { status: 202, headers: { 'X-Cache': 'HIT' } }
+      );
+      PromptExperimentService.persistSession(response, session);
+      return response;
+    }
+
+    // Screening calls a paid classifier, so it is throttled separately
+    const screeningLimit = RateLimitService.checkModerationLimit(request);
+    if (!screeningLimit.allowed) {
+      return rateLimitExceeded(screeningLimit);
+    }
+
+    // Screen the upload; rejected photos do not charge a rate limit attempt
+    const rejection = await PreviewGenerationService.moderateUpload(body);
+    if (rejection) {
+      return NextResponse.json(rejection.body, { status: rejection.status });
+    }
+
+    // Check rate limiting
+    const rateLimitResult = RateLimitService.checkRateLimit(request);
+    if (!rateLimitResult.allowed) {
+      return rateLimitExceeded(rateLimitResult);
+    }
+
+    const job = GenerationJobService.create();
+
+    // Keep working after the response is sent
+    after(() =>
+      GenerationJobService.run(job.id, (onStage, signal) =>
+        PreviewGenerationService.run(body, onStage, { ...context, signal })
+      )
+    );
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/generate-preview/jobs/${job.id}`,
+        eventsUrl: `/api/generate-preview/jobs/${job.id}/events`,
+      },
+      { status: 202 }
+    );
+
+    // Add rate limit headers
+    response.headers.set('X-RateLimit-Limit', '3');
+    response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+    response.headers.set('X-RateLimit-Reset', rateLimitResult.resetTime.toString());
+    PromptExperimentService.persistSession(response, session);
+
+    return response;
+
+  } catch (error) {
+    console.error('Generation job creation error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to create generation job: ${errorMessage}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Build the 429 response for an exhausted rate limit
+ */
+function rateLimitExceeded(rateLimitResult: RateLimitResult) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Rate limit exceeded. Please try again later.',
+      retryAfter: rateLimitResult.retryAfter,
+      resetTime: rateLimitResult.resetTime,
+    },
+    {
+      status: 429,
+      headers: {
+        'X-RateLimit-Limit': '3',
+        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+        'X-RateLimit-Reset': rateLimitResult.resetTime.toString(),
+        'Retry-After': rateLimitResult.retryAfter?.toString() || '0',
+      },
+    }
+  );
+}
@@ -0,0 +1,134 @@
+import sharp from 'sharp';
+import { POST } from '../route';
+import { NextRequest } from 'next/server';
+import { RateLimitService } from '@/lib/rate-limit';
+import { AIResponseHandler } from '@/lib/ai-response-handler';
+import { aiService } from '@/lib/ai-service';
+import { WatermarkService } from '@/lib/watermark';
+import { GenerationStore } from '@/lib/generation-store';
+
+jest.mock('@/lib/ai-service', () => ({
+  aiService: {
+    generatePortrait: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/ai-response-handler', () => ({
+  AIResponseHandler: {
+    processResponse: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/watermark', () => ({
+  WatermarkService: {
+    addPreviewWatermark: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/provenance', () => ({
+  ProvenanceService: {
+    embed: jest.fn((imageData: string) => ({ success: true, imageData })),
+  },
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  RateLimitService: {
+    checkRateLimit: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/env-validation', () => ({
+  env: {
+    getAIConfig: () => ({ model: 'gemini-2.5-flash-image-preview' }),
+  },
+}));
+
+const createRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/generate-preview/refine', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+describe('/api/generate-preview/refine', () => {
+  let imageData: string;
+
+  beforeAll(async () => {
+    imageData = (await sharp({
+      create: { width: 512, height: 512, channels: 3, background: '#3b5b8c' },
+    }).png().toBuffer()).toString('base64');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    GenerationStore.clearAll();
+
+    RateLimitService.checkRateLimit.mockReturnValue({
+      allowed: true,
+      remaining: 2,
+      resetTime: Date.now() + 3600000,
+    });
+
+    aiService.generatePortrait.mockResolvedValue({
+      success: true,
+      imageData,
+      model: 'gemini-2.5-flash-image-preview',
+    });
+
+    AIResponseHandler.processResponse.mockImplementation(async (result: { imageData: string }) => ({
+      success: true,
+      imageData: result.imageData,
+      metadata: { dimensions: { width: 512, height: 512 }, quality: 'high' },
+    }));
+
+    WatermarkService.addPreviewWatermark.mockResolvedValue({
+      success: true,
+      imageData: 'watermarkeddata',
+    });
+  });
+
+  it('should return 404 for an unknown generation', async () => {
+    const response = await POST(createRequest({ generationId: 'missing', instruction: 'darker suit' }));
+
+    expect(response.status).toBe(404);
+    expect(aiService.generatePortrait).not.toHaveBeenCalled();
+  });
+
+  it('should reject disallowed instructions', async () => {
+    const original = GenerationStore.save({
+      imageData,
+      options: { background: 'office', style: 'professional' },
+      useCase: 'general',
+      model: 'gemini-2.5-flash-image-preview',
+    });
+
+    const response = await POST(createRequest({ generationId: original.id, instruction: 'make it nude' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('Instruction was rejected');
+  });
+
+  it('should refine a generation as a multi-turn edit and return its versions', async () => {
+    const original = GenerationStore.save({
+      imageData,
+      options: { background: 'office', style: 'professional' },
+      useCase: 'general',
+      model: 'gemini-2.5-flash-image-preview',
+      prompt: 'Original prompt',
+    });
+
+    const response = await POST(createRequest({ generationId: original.id, instruction: 'darker suit' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.imageData).toBe('watermarkeddata');
+    expect(data.versions).toHaveLength(2);
+    expect(data.versions[1]).toMatchObject({ version: 2, instruction: 'darker suit' });
+    expect(GenerationStore.get(data.generationId)?.parentId).toBe(original.id);
+
+    const [request] = aiService.generatePortrait.mock.calls[0];
+    expect(request.prompt).toContain('darker suit');
+    expect(request.history.map((turn: { role: string }) => turn.role)).toEqual(['user', 'model']);
+    expect(request.history[0].text).toBe('Original prompt');
+  });
+});
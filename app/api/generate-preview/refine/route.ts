@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimitService } from '@/lib/rate-limit';
+import { PreviewGenerationService, PreviewRefinementRequest } from '@/lib/preview-generation';
+
+/**
+ * Preview Refinement API Route
+ * Applies a short follow-up instruction ("darker suit") to a previous
+ * generation and returns the new watermarked version with its version history
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check rate limiting
+    const rateLimitResult = RateLimitService.checkRateLimit(request);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Rate limit exceeded. Please try again later.',
+          retryAfter: rateLimitResult.retryAfter,
+          resetTime: rateLimitResult.resetTime,
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': '3',
+            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+            'X-RateLimit-Reset': rateLimitResult.resetTime.toString(),
+            'Retry-After': rateLimitResult.retryAfter?.toString() || '0',
+          },
+        }
+      );
+    }
+
+    // Parse request body
+    const body: PreviewRefinementRequest = await request.json();
+
+    const result = await PreviewGenerationService.refine(body);
+
+    const response = NextResponse.json(result.body, { status: result.status });
+
+    if (result.status === 200) {
+      // Add rate limit headers
+      response.headers.set('X-RateLimit-Limit', '3');
+      response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+      response.headers.set('X-RateLimit-Reset', rateLimitResult.resetTime.toString());
+    }
+
+    return response;
+
+  } catch (error) {
+    console.error('Preview refinement error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Preview refinement failed: ${errorMessage}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPaymentIntent, validatePaymentAmount } from '@/lib/stripe';
+import { GenerationStore } from '@/lib/generation-store';
+import { DownloadTokenService } from '@/lib/download-token';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { amount, currency = 'usd' } = body;
+    const { amount, currency = 'usd', generationId } = body;
 
     // Validate amount
     if (!amount || !validatePaymentAmount(amount)) {
@@ -22,9 +24,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create payment intent
+    // Validate the previewed generation being purchased
+    if (!generationId || typeof generationId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing generationId for the previewed portrait' },
+        { status: 400 }
+      );
+    }
+
+    if (!GenerationStore.has(generationId)) {
+      return NextResponse.json(
+        { error: 'Preview has expired. Please generate a new preview.' },
+        { status: 404 }
+      );
+    }
+
+    // Create payment intent linked to the previewed generation
     const result = await createPaymentIntent(amount, {
       product: 'ai-business-portrait',
+      generationId,
       timestamp: new Date().toISOString(),
     });
 
@@ -35,10 +53,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
+    // Only this browser may download the portrait once the payment succeeds
+    const response = NextResponse.json({
       clientSecret: result.clientSecret,
       paymentIntentId: result.paymentIntentId,
     });
+    DownloadTokenService.persist(response, result.paymentIntentId!);
+
+    return response;
 
   } catch (error) {
     console.error('Payment intent creation error:', error);
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ForensicWatermarkService } from '@/lib/forensic-watermark';
+import { AdminAuth } from '@/lib/admin-auth';
+import { env } from '@/lib/env-validation';
+
+/**
+ * Watermark Verification API Route
+ * Checks an image for the forensic watermark embedded in paid downloads and
+ * reports the generation and order it maps to. Requires the x-admin-secret
+ * header (open in development when ADMIN_API_SECRET is unset).
+ */
+
+export interface WatermarkVerifyRequest {
+  imageData: string; // Base64 image data or data URL
+}
+
+export async function POST(request: NextRequest) {
+  if (!AdminAuth.isAdminRequest(request)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Not authorized to verify watermarks'
+      },
+      { status: 403 }
+    );
+  }
+
+  if (!ForensicWatermarkService.isEnabled()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Forensic watermarking is not configured'
+      },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body: WatermarkVerifyRequest = await request.json();
+
+    if (!body.imageData || typeof body.imageData !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: imageData'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Base64 is 4/3 the size of the bytes it encodes
+    if (body.imageData.length * 0.75 > env.getUploadConfig().maxSize) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Image is too large to verify'
+        },
+        { status: 413 }
+      );
+    }
+
+    const result = await ForensicWatermarkService.verify(body.imageData);
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error || 'Failed to verify watermark'
+        },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Watermark verification error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to verify watermark'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,10 +4,15 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { CustomizationOptions } from "@/components/ui/CustomizationOptions";
+import { PhotoUpload } from "@/components/ui/PhotoUpload";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CustomizationOptions as CustomizationOptionsType } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { CustomizationOptions as CustomizationOptionsType, UploadedImage, UseCase } from "@/types";
+import { CUSTOMIZATION_OPTIONS } from "@/lib/constants";
+import { OutputGeometry } from "@/lib/output-geometry";
+import { BrowserImageUtils } from "@/lib/browser-image";
 
 // Type for serialized image data from session storage
 interface SerializedImage {
@@ -23,17 +28,21 @@ interface SerializedImage {
   base64Data: string;
   file?: File; // Optional for backward compatibility
 }
-import { ArrowLeft, ArrowRight, Palette, AlertCircle } from "lucide-react";
+import { ArrowLeft, ArrowRight, Palette, AlertCircle, Check, Crop, ImageIcon } from "lucide-react";
 import { LoadingCard } from "@/components/ui/LoadingStates";
 import Link from "next/link";
 
 export default function CustomizePage() {
   const router = useRouter();
   const [uploadedImage, setUploadedImage] = useState<SerializedImage | null>(null);
+  const [referenceImages, setReferenceImages] = useState<SerializedImage[]>([]);
   const [customization, setCustomization] = useState<CustomizationOptionsType>({
     background: 'office',
     style: 'professional'
   });
+  const [useCase, setUseCase] = useState<UseCase>('general');
+  const [backgroundImage, setBackgroundImage] = useState<SerializedImage | null>(null);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -54,6 +63,23 @@ export default function CustomizePage() {
 
         const parsedImage = JSON.parse(storedImage);
         setUploadedImage(parsedImage);
+
+        const storedReferences = sessionStorage.getItem("referenceImages");
+        if (storedReferences) {
+          setReferenceImages(JSON.parse(storedReferences));
+        }
+
+        // Restore a previous use case choice when coming back from preview
+        const storedUseCase = sessionStorage.getItem("useCase");
+        if (OutputGeometry.isValidUseCase(storedUseCase)) {
+          setUseCase(storedUseCase);
+        }
+
+        // Keep a previously uploaded custom background
+        const storedBackground = sessionStorage.getItem("backgroundImage");
+        if (storedBackground) {
+          setBackgroundImage(JSON.parse(storedBackground));
+        }
       } catch {
         setError("Invalid image data. Please upload an image again.");
       } finally {
@@ -68,21 +94,51 @@ export default function CustomizePage() {
     setCustomization(newCustomization);
   };
 
+  const handleBackgroundUpload = async (image: UploadedImage) => {
+    try {
+      // Shrunk like the portrait photos so it fits in session storage
+      setBackgroundImage({
+        id: image.id,
+        preview: image.preview,
+        uploadedAt: image.uploadedAt.toISOString(),
+        ...await BrowserImageUtils.toStorable(image.file),
+      });
+      setBackgroundError(null);
+    } catch {
+      setBackgroundError("Failed to process background image. Please try again.");
+    }
+  };
+
   const handleContinue = async () => {
     if (!uploadedImage) {
       setError("No image found. Please upload an image first.");
       return;
     }
 
+    if (customization.background === 'custom' && !backgroundImage) {
+      setBackgroundError("Upload a background photo to use a custom background.");
+      return;
+    }
+
     setIsProcessing(true);
     try {
       // Simulate processing time
       await new Promise(resolve => setTimeout(resolve, 1000));
       // Store customization in session storage
       sessionStorage.setItem("customization", JSON.stringify(customization));
+      sessionStorage.setItem("useCase", useCase);
+      if (customization.background === 'custom' && backgroundImage) {
+        sessionStorage.setItem("backgroundImage", JSON.stringify(backgroundImage));
+      } else {
+        sessionStorage.removeItem("backgroundImage");
+      }
       router.push("/preview");
-    } catch {
-      setError("Failed to save customization. Please try again.");
+    } catch (err) {
+      setError(
+        BrowserImageUtils.isQuotaExceeded(err)
+          ? "Your photos are too large to keep in this browser. Please go back and remove a photo."
+          : "Failed to save customization. Please try again."
+      );
       setIsProcessing(false);
     }
   };
@@ -215,11 +271,83 @@ export default function CustomizePage() {
                 </p>
               </div>
 
+              {/* Use Case Selection */}
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Crop className="w-5 h-5" />
+                  Where Will You Use It?
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {CUSTOMIZATION_OPTIONS.USE_CASES.map((option) => (
+                    <Card
+                      key={option.id}
+                      className={`cursor-pointer transition-all duration-200 hover:shadow-md ${
+                        useCase === option.id
+                          ? "ring-2 ring-blue-500 bg-blue-50"
+                          : "hover:bg-gray-50"
+                      }`}
+                      onClick={() => setUseCase(option.id)}
+                    >
+                      <CardContent className="p-4 flex flex-col items-center text-center gap-2">
+                        <div className="h-12 flex items-center justify-center">
+                          <div
+                            className="bg-gradient-to-br from-blue-100 to-blue-200 border border-blue-300 rounded-sm h-full"
+                            style={{ aspectRatio: `${option.aspectRatio.width} / ${option.aspectRatio.height}` }}
+                          />
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <span className="text-sm font-medium text-gray-900">{option.name}</span>
+                          {useCase === option.id && (
+                            <Badge variant="default" className="bg-blue-600 px-1">
+                              <Check className="w-3 h-3" />
+                            </Badge>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-600">{option.description}</span>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+
               <CustomizationOptions
                 options={customization}
                 onChange={handleCustomizationChange}
                 disabled={false}
               />
+
+              {customization.background === 'custom' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ImageIcon className="w-5 h-5" />
+                      Your Background
+                    </CardTitle>
+                    <CardDescription>
+                      Upload a photo of your office lobby or brand backdrop. We&apos;ll place you into it with matching lighting.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <PhotoUpload
+                      title={backgroundImage ? "Replace your background" : "Upload your background"}
+                      onUpload={handleBackgroundUpload}
+                      // PhotoUpload shows its own validation errors
+                      onError={() => setBackgroundError(null)}
+                    />
+                    {backgroundImage && (
+                      <p className="text-sm text-gray-600">
+                        <strong>Background:</strong> {backgroundImage.dimensions.width} × {backgroundImage.dimensions.height}px
+                      </p>
+                    )}
+                    {backgroundError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{backgroundError}</AlertDescription>
+                      </Alert>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Preview Section */}
@@ -245,6 +373,28 @@ export default function CustomizePage() {
                     <p><strong>Size:</strong> {(uploadedImage.size / 1024 / 1024).toFixed(2)} MB</p>
                     <p><strong>Dimensions:</strong> {uploadedImage.dimensions.width} × {uploadedImage.dimensions.height}px</p>
                   </div>
+                  {referenceImages.length > 0 && (
+                    <div className="mt-4">
+                      <p className="text-sm text-gray-600 mb-2">
+                        <strong>Reference photos:</strong> used to preserve your likeness
+                      </p>
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        {referenceImages.map((reference, index) => (
+                          <div
+                            key={reference.id}
+                            className="relative w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-100"
+                          >
+                            <Image
+                              src={`data:${reference.type};base64,${reference.base64Data}`}
+                              alt={`Reference photo ${index + 1}`}
+                              fill
+                              className="object-cover"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -8,40 +8,94 @@ import { Badge } from "@/components/ui/badge";
 import { Download, CheckCircle, Share2, RefreshCw } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
+import { EXPORT_CONFIG } from "@/lib/constants";
+import { OutputGeometry } from "@/lib/output-geometry";
 
-interface DownloadPageProps {
-  searchParams: {
-    payment_intent?: string;
-    session_id?: string;
+type ExportFormat = typeof EXPORT_CONFIG.FORMATS[number]['id'];
+type ExportPreset = typeof EXPORT_CONFIG.PRESETS[number]['id'];
+type ExportQuality = keyof typeof EXPORT_CONFIG.QUALITY_LEVELS;
+
+interface ExportSelection {
+  format: ExportFormat;
+  preset: ExportPreset;
+  quality: ExportQuality;
+}
+
+interface ExportInfo extends ExportSelection {
+  mimeType: string;
+  fileName: string;
+  dimensions: { width: number; height: number };
+}
+
+const QUALITY_LABELS: Record<ExportQuality, string> = {
+  high: "High",
+  balanced: "Balanced",
+  small: "Small file",
+};
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1.5 rounded-full border text-sm transition-colors ${
+    selected
+      ? "border-blue-500 bg-blue-50 text-blue-700"
+      : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+  }`;
+
+interface FullGenerationResult {
+  imageUrl: string;
+  metadata?: {
+    generationTime: number;
+    cost: number;
+    dimensions: { width: number; height: number };
+    quality: 'high' | 'medium' | 'low';
+    watermarked: boolean;
   };
 }
 
-export default function DownloadPage({}: DownloadPageProps) {
+/**
+ * Release the purchased portrait rendered with the chosen export options.
+ * The server finds the purchase from the cookie set for this browser at checkout.
+ */
+async function requestExport(selection: ExportSelection) {
+  const params = new URLSearchParams({ ...selection });
+  const response = await fetch(`/api/generate-full?${params.toString()}`, { method: 'POST' });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data;
+}
+
+export default function DownloadPage() {
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<FullGenerationResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [downloadCount, setDownloadCount] = useState(0);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [selection, setSelection] = useState<ExportSelection>({ ...EXPORT_CONFIG.DEFAULTS });
+  const [exportInfo, setExportInfo] = useState<ExportInfo | null>(null);
 
   useEffect(() => {
-    // Simulate fetching download URL based on payment intent
     const fetchDownloadUrl = async () => {
       try {
         setIsLoading(true);
-        
-        // In a real implementation, you would:
-        // 1. Verify the payment intent with Stripe
-        // 2. Generate the full-resolution image
-        // 3. Return the download URL
-        
-        // For now, simulate a successful payment and generation
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Mock download URL - in production this would be a real image URL
-        setDownloadUrl("https://via.placeholder.com/2048x2048/3b82f6/ffffff?text=Your+Professional+Portrait");
-        
-      } catch {
-        setError("Failed to generate your portrait. Please contact support.");
+
+        // The server releases the exact preview linked to this browser's payment
+        const data = await requestExport({ ...EXPORT_CONFIG.DEFAULTS });
+
+        const imageUrl = data.imageUrl || `data:image/jpeg;base64,${data.imageData}`;
+        setResult({ imageUrl, metadata: data.metadata });
+        setDownloadUrl(imageUrl);
+        setExportInfo(data.export || null);
+      } catch (err) {
+        console.error('Full generation error:', err);
+        setError(
+          err instanceof Error
+            ? `Failed to prepare your portrait: ${err.message}`
+            : "Failed to prepare your portrait. Please contact support."
+        );
       } finally {
         setIsLoading(false);
       }
@@ -54,41 +108,87 @@ export default function DownloadPage({}: DownloadPageProps) {
     if (!downloadUrl) return;
     
     setIsDownloading(true);
-    setDownloadCount(prev => prev + 1);
     
     try {
+      let url = downloadUrl;
+      let info = exportInfo;
+
+      // Only go back to the server when the choice differs from the last export
+      const isCurrent = info
+        && info.format === selection.format
+        && info.preset === selection.preset
+        && info.quality === selection.quality;
+      if (!isCurrent) {
+        const data = await requestExport(selection);
+        url = data.imageUrl;
+        info = data.export;
+        setDownloadUrl(url);
+        setExportInfo(info);
+      }
+
+      const format = EXPORT_CONFIG.FORMATS.find(option => option.id === selection.format)!;
+      const fileName = info?.fileName || `professional-portrait.${format.extension}`;
+
       // Create a temporary link to download the image
       const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `professional-portrait-${Date.now()}.jpg`;
+      link.href = url;
+      link.download = fileName.replace(/(\.[a-z]+)$/, `-${Date.now()}$1`);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-    } catch {
-      setError("Download failed. Please try again.");
+      setDownloadCount(prev => prev + 1);
+    } catch (err) {
+      console.error('Export error:', err);
+      setError(
+        err instanceof Error
+          ? `Download failed: ${err.message}`
+          : "Download failed. Please try again."
+      );
     } finally {
       setIsDownloading(false);
     }
   };
 
+  // Share the public site, never this page: it releases the purchase
   const handleShare = async () => {
+    const shareUrl = window.location.origin;
+
     if (navigator.share && downloadUrl) {
       try {
         await navigator.share({
           title: "My Professional Portrait",
           text: "Check out my AI-generated professional portrait!",
-          url: window.location.href,
+          url: shareUrl,
         });
       } catch {
         // Fallback to copying URL to clipboard
-        navigator.clipboard.writeText(window.location.href);
+        navigator.clipboard.writeText(shareUrl);
       }
     } else {
       // Fallback to copying URL to clipboard
-      navigator.clipboard.writeText(window.location.href);
+      navigator.clipboard.writeText(shareUrl);
     }
   };
 
+  const fullSize = result?.metadata?.dimensions;
+  const dimensionsLabel = fullSize ? `${fullSize.width}x${fullSize.height}` : "full-resolution";
+
+  const selectedFormat = EXPORT_CONFIG.FORMATS.find(option => option.id === selection.format)!;
+  const selectedPreset = EXPORT_CONFIG.PRESETS.find(option => option.id === selection.preset)!;
+  const exportMatchesSelection = exportInfo
+    && exportInfo.format === selection.format
+    && exportInfo.preset === selection.preset
+    && exportInfo.quality === selection.quality;
+  // Presets other than the square crop shrink the full size but never enlarge it
+  const presetSize = fullSize ? OutputGeometry.limitLongEdge(fullSize, selectedPreset.longEdge) : null;
+  const exportDimensionsLabel = exportMatchesSelection
+    ? `${exportInfo.dimensions.width}x${exportInfo.dimensions.height} pixels`
+    : selectedPreset.square
+      ? `${selectedPreset.longEdge}x${selectedPreset.longEdge} pixels`
+      : presetSize
+        ? `${presetSize.width}x${presetSize.height} pixels`
+        : `Up to ${selectedPreset.longEdge} pixels on the long edge`;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -168,14 +268,14 @@ export default function DownloadPage({}: DownloadPageProps) {
                 Your Professional Portrait
               </CardTitle>
               <CardDescription>
-                High-resolution 2048x2048 image ready for download
+                Your {dimensionsLabel} image is ready for download
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="relative aspect-square max-w-md mx-auto rounded-lg overflow-hidden bg-gray-100">
-                {downloadUrl && (
+                {result && (
                   <Image
-                    src={downloadUrl}
+                    src={result.imageUrl}
                     alt="Your professional portrait"
                     fill
                     className="object-cover"
@@ -191,6 +291,74 @@ export default function DownloadPage({}: DownloadPageProps) {
             </CardContent>
           </Card>
 
+          {/* Export Options */}
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Export Options</CardTitle>
+              <CardDescription>
+                Choose the file type, size and quality for your download
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Format</h4>
+                <div className="flex flex-wrap gap-2">
+                  {EXPORT_CONFIG.FORMATS.map(format => (
+                    <button
+                      key={format.id}
+                      type="button"
+                      title={format.description}
+                      onClick={() => setSelection(prev => ({ ...prev, format: format.id }))}
+                      disabled={isDownloading}
+                      className={chipClass(selection.format === format.id)}
+                    >
+                      {format.name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{selectedFormat.description}</p>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Size</h4>
+                <div className="flex flex-wrap gap-2">
+                  {EXPORT_CONFIG.PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      type="button"
+                      title={preset.description}
+                      onClick={() => setSelection(prev => ({ ...prev, preset: preset.id }))}
+                      disabled={isDownloading}
+                      className={chipClass(selection.preset === preset.id)}
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{selectedPreset.description}</p>
+              </div>
+
+              {selection.format !== 'png' && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Quality</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(EXPORT_CONFIG.QUALITY_LEVELS) as ExportQuality[]).map(quality => (
+                      <button
+                        key={quality}
+                        type="button"
+                        onClick={() => setSelection(prev => ({ ...prev, quality }))}
+                        disabled={isDownloading}
+                        className={chipClass(selection.quality === quality)}
+                      >
+                        {QUALITY_LABELS[quality]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Download Actions */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
             <Button
@@ -207,7 +375,7 @@ export default function DownloadPage({}: DownloadPageProps) {
               ) : (
                 <>
                   <Download className="w-4 h-4 mr-2" />
-                  Download Portrait
+                  Download {selectedFormat.name}
                 </>
               )}
             </Button>
@@ -230,11 +398,18 @@ export default function DownloadPage({}: DownloadPageProps) {
               <div className="space-y-2 text-sm text-gray-600">
                 <div className="flex justify-between">
                   <span>Resolution:</span>
-                  <span className="font-medium">2048 x 2048 pixels</span>
+                  <span className="font-medium">{exportDimensionsLabel}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Format:</span>
-                  <span className="font-medium">High-quality JPEG</span>
+                  <span className="font-medium">
+                    {selectedFormat.name}
+                    {selection.format !== 'png' && ` (${QUALITY_LABELS[selection.quality].toLowerCase()} quality)`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Print resolution:</span>
+                  <span className="font-medium">{selectedPreset.dpi} DPI</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Downloads remaining:</span>
@@ -11,7 +11,8 @@ import { Badge } from "@/components/ui/badge";
 import { UploadedImage, CustomizationOptions as CustomizationOptionsType, GenerationResponse, PaymentResponse } from "@/types";
 import { ArrowLeft, CreditCard, Shield, CheckCircle, AlertCircle } from "lucide-react";
 import Link from "next/link";
-import { PRICING_CONFIG } from "@/lib/constants";
+import { CUSTOMIZATION_OPTIONS, GENERATION_CONFIG, PRICING_CONFIG } from "@/lib/constants";
+import { OutputGeometry } from "@/lib/output-geometry";
 
 export default function PaymentPage() {
   const router = useRouter();
@@ -53,14 +54,14 @@ export default function PaymentPage() {
       const paymentData: PaymentResponse = {
         id: payment.id,
         status: 'succeeded',
-        downloadUrl: `/api/download/${payment.id}`, // Mock download URL
+        downloadUrl: '/download',
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
       };
 
       sessionStorage.setItem("payment", JSON.stringify(paymentData));
       
-      // Redirect to download page
-      router.push("/download");
+      // Redirect to download page; the checkout cookie identifies the purchase
+      router.push('/download');
     } catch {
       setError("Payment succeeded but failed to process. Please contact support.");
     } finally {
@@ -76,6 +77,11 @@ export default function PaymentPage() {
     router.push("/preview");
   };
 
+  // Purchases deliver the generated resolution, never upscaled
+  const fullSize = generation?.metadata?.dimensions
+    ? OutputGeometry.limitLongEdge(generation.metadata.dimensions, GENERATION_CONFIG.FULL_SIZE)
+    : null;
+
   if (error && !uploadedImage) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -190,6 +196,7 @@ export default function PaymentPage() {
 
               <PaymentForm
                 amount={PRICING_CONFIG.DOWNLOAD_PRICE}
+                generationId={generation.id}
                 onSuccess={handlePaymentSuccess}
                 onError={handlePaymentError}
                 disabled={isProcessing}
@@ -219,10 +226,12 @@ export default function PaymentPage() {
                     <div className="flex-1">
                       <h4 className="font-medium text-gray-900">AI Business Portrait</h4>
                       <p className="text-sm text-gray-600">
-                        {customization.background === 'office' ? 'Office' : 'Studio'} background, {customization.style} style
+                        {CUSTOMIZATION_OPTIONS.BACKGROUNDS.find(option => option.id === customization.background)?.name} background, {customization.style} style
                       </p>
                       <div className="flex items-center gap-2 mt-1">
-                        <Badge variant="outline">High Resolution</Badge>
+                        <Badge variant="outline">
+                          {fullSize ? `${fullSize.width}x${fullSize.height}` : "Full Resolution"}
+                        </Badge>
                         <Badge variant="outline">No Watermark</Badge>
                       </div>
                     </div>
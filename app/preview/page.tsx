@@ -2,15 +2,28 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import Image from "next/image";
 import { PreviewImage } from "@/components/ui/PreviewImage";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { UploadedImage, CustomizationOptions as CustomizationOptionsType, GenerationResponse } from "@/types";
-import { ArrowLeft, Eye, AlertCircle, CheckCircle } from "lucide-react";
+import { UploadedImage, CustomizationOptions as CustomizationOptionsType, GenerationResponse, UseCase } from "@/types";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Eye, AlertCircle, CheckCircle, Wand2, History } from "lucide-react";
 import { LoadingCard, ProgressSteps } from "@/components/ui/LoadingStates";
 import Link from "next/link";
+import { CUSTOMIZATION_OPTIONS, GENERATION_CONFIG, JOB_CONFIG, REFINE_CONFIG } from "@/lib/constants";
+import { OutputGeometry } from "@/lib/output-geometry";
+import type { GenerationJobStage } from "@/lib/generation-jobs";
+import type { PreviewCandidate, PreviewGenerationResponse, SerializedImage } from "@/lib/preview-generation";
+
+const GENERATION_STEPS: Array<{ stage: GenerationJobStage; label: string }> = [
+  { stage: 'validating', label: "Validating your photo" },
+  { stage: 'generating', label: "Generating your portrait" },
+  { stage: 'post-processing', label: "Post-processing" },
+  { stage: 'watermarking', label: "Adding preview watermark" },
+];
 
 // Helper function to convert File to base64
 const convertFileToBase64 = (file: File): Promise<string> => {
@@ -27,15 +40,95 @@ const convertFileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Convert a preview candidate into the generation shape used by payment
+const toGenerationResponse = (candidate: PreviewCandidate): GenerationResponse => ({
+  id: candidate.generationId,
+  imageUrl: candidate.previewUrl || `data:image/jpeg;base64,${candidate.imageData}`,
+  isPreview: true,
+  watermarked: candidate.metadata?.watermarked || true,
+  status: 'completed',
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+  metadata: candidate.metadata,
+});
+
+// Follow a generation job over server-sent events, falling back to polling
+const waitForGenerationJob = (
+  jobId: string,
+  onStage: (stage: GenerationJobStage) => void
+): Promise<PreviewGenerationResponse> => {
+  return new Promise((resolve, reject) => {
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/generate-preview/jobs/${jobId}`);
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+
+        onStage(data.job.stage);
+
+        if (data.job.status === 'completed') {
+          resolve(data.result);
+        } else if (data.job.status === 'failed') {
+          reject(new Error(data.job.error || 'Failed to generate preview'));
+        } else {
+          setTimeout(poll, JOB_CONFIG.POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      poll();
+      return;
+    }
+
+    const events = new EventSource(`/api/generate-preview/jobs/${jobId}/events`);
+
+    events.addEventListener('stage', (event) => {
+      onStage(JSON.parse((event as MessageEvent).data).job.stage);
+    });
+
+    events.addEventListener('completed', (event) => {
+      events.close();
+      resolve(JSON.parse((event as MessageEvent).data).result);
+    });
+
+    events.addEventListener('failed', (event) => {
+      events.close();
+      reject(new Error(JSON.parse((event as MessageEvent).data).error || 'Failed to generate preview'));
+    });
+
+    events.onerror = () => {
+      // Stream dropped (proxy timeout, instance restart) - keep going by polling
+      events.close();
+      poll();
+    };
+  });
+};
+
 export default function PreviewPage() {
   const router = useRouter();
   const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
   const [customization, setCustomization] = useState<CustomizationOptionsType | null>(null);
+  const [referenceImages, setReferenceImages] = useState<SerializedImage[]>([]);
+  const [backgroundImage, setBackgroundImage] = useState<SerializedImage | null>(null);
+  const [useCase, setUseCase] = useState<UseCase>('general');
+  const [candidates, setCandidates] = useState<GenerationResponse[]>([]);
   const [generation, setGeneration] = useState<GenerationResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [jobStage, setJobStage] = useState<GenerationJobStage>('queued');
   const [error, setError] = useState<string | null>(null);
+  const [versions, setVersions] = useState<Array<{ generation: GenerationResponse; instruction?: string }>>([]);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const [instruction, setInstruction] = useState("");
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
 
   useEffect(() => {
     const initializePage = async () => {
@@ -55,12 +148,26 @@ export default function PreviewPage() {
 
         const parsedImage = JSON.parse(storedImage);
         const parsedCustomization = JSON.parse(storedCustomization);
+        const storedReferences = sessionStorage.getItem("referenceImages");
+        const parsedReferences = storedReferences ? JSON.parse(storedReferences) : [];
+        const storedBackground = sessionStorage.getItem("backgroundImage");
+        const parsedBackground = parsedCustomization.background === 'custom' && storedBackground
+          ? JSON.parse(storedBackground)
+          : null;
+        const storedUseCase = sessionStorage.getItem("useCase");
+        const parsedUseCase = OutputGeometry.isValidUseCase(storedUseCase) ? storedUseCase : 'general';
         
         setUploadedImage(parsedImage);
         setCustomization(parsedCustomization);
+        setReferenceImages(parsedReferences);
+        setBackgroundImage(parsedBackground);
+        setUseCase(parsedUseCase);
         
         // Start generation process
-        generatePreview(parsedImage, parsedCustomization);
+        generatePreview(parsedImage, parsedCustomization, parsedUseCase, {
+          referenceImages: parsedReferences,
+          backgroundImage: parsedBackground,
+        });
       } catch {
         setError("Invalid data. Please start over.");
       } finally {
@@ -71,9 +178,16 @@ export default function PreviewPage() {
     initializePage();
   }, []);
 
-  const generatePreview = async (image: UploadedImage, customizations: CustomizationOptionsType) => {
+  const generatePreview = async (
+    image: UploadedImage,
+    customizations: CustomizationOptionsType,
+    selectedUseCase: UseCase,
+    extraImages: { referenceImages: SerializedImage[]; backgroundImage: SerializedImage | null },
+    newVariation = false
+  ) => {
     setLoading(true);
     setIsGenerating(true);
+    setJobStage('queued');
     setError(null);
 
     try {
@@ -99,16 +213,20 @@ export default function PreviewPage() {
         base64Data: imageBase64,
       };
 
-      // Call the real API to generate preview
-      const response = await fetch('/api/generate-preview', {
+      // Queue the preview generation job
+      const response = await fetch('/api/generate-preview/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           image: serializableImage,
+          referenceImages: extraImages.referenceImages.length > 0 ? extraImages.referenceImages : undefined,
+          backgroundImage: extraImages.backgroundImage || undefined,
           options: customizations,
-          useCase: 'general',
+          useCase: selectedUseCase,
+          candidateCount: GENERATION_CONFIG.PREVIEW_CANDIDATES,
+          newVariation,
         }),
       });
 
@@ -141,19 +259,22 @@ export default function PreviewPage() {
         throw new Error(data.error || 'Failed to generate preview');
       }
 
-      // Create generation response from API data
-      const generationResponse: GenerationResponse = {
-        id: crypto.randomUUID(),
-        imageUrl: data.previewUrl || `data:image/jpeg;base64,${data.imageData}`,
-        isPreview: true,
-        watermarked: data.metadata?.watermarked || true,
-        status: 'completed',
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-        metadata: data.metadata,
-      };
+      const result = await waitForGenerationJob(data.jobId, setJobStage);
 
-      setGeneration(generationResponse);
+      // Fall back to the top-level fields for single-preview responses
+      const generated = result.candidates?.length
+        ? result.candidates.map(toGenerationResponse)
+        : [toGenerationResponse({
+            generationId: result.generationId || data.jobId,
+            previewUrl: result.previewUrl || '',
+            imageData: result.imageData || '',
+            metadata: result.metadata!,
+          })];
+
+      setCandidates(generated);
+      setGeneration(generated[0]);
+      setVersions([{ generation: generated[0] }]);
+      setVersionIndex(0);
     } catch (err) {
       console.error('Preview generation error:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate preview. Please try again.';
@@ -164,9 +285,74 @@ export default function PreviewPage() {
     }
   };
 
+  // Purchases deliver the generated resolution, so show the real size once known
+  const fullSize = generation?.metadata?.dimensions
+    ? OutputGeometry.limitLongEdge(generation.metadata.dimensions, GENERATION_CONFIG.FULL_SIZE)
+    : null;
+  const fullSizeLabel = fullSize ? `${fullSize.width}x${fullSize.height}` : "Full";
+
   const handleRetry = () => {
+    // Refreshing the page reuses cached results; retrying asks for fresh ones
     if (uploadedImage && customization) {
-      generatePreview(uploadedImage, customization);
+      generatePreview(uploadedImage, customization, useCase, { referenceImages, backgroundImage }, true);
+    }
+  };
+
+  // Picking a candidate starts a new version history from it
+  const selectCandidate = (candidate: GenerationResponse) => {
+    setGeneration(candidate);
+    setVersions([{ generation: candidate }]);
+    setVersionIndex(0);
+    setRefineError(null);
+  };
+
+  const selectVersion = (index: number) => {
+    setVersionIndex(index);
+    setGeneration(versions[index].generation);
+  };
+
+  const handleRefine = async () => {
+    if (!generation || !instruction.trim()) {
+      return;
+    }
+
+    setIsRefining(true);
+    setRefineError(null);
+
+    try {
+      const response = await fetch('/api/generate-preview/refine', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          generationId: generation.id,
+          instruction: instruction.trim(),
+        }),
+      });
+
+      const data: PreviewGenerationResponse = await response.json();
+
+      if (!response.ok || !data.success || !data.candidates?.length) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const refined = toGenerationResponse(data.candidates[0]);
+      const latest = data.versions?.[data.versions.length - 1];
+
+      // Refining an earlier version drops the versions after it
+      setVersions([
+        ...versions.slice(0, versionIndex + 1),
+        { generation: refined, instruction: latest?.instruction || instruction.trim() },
+      ]);
+      setVersionIndex(versionIndex + 1);
+      setGeneration(refined);
+      setInstruction("");
+    } catch (err) {
+      console.error('Preview refinement error:', err);
+      setRefineError(err instanceof Error ? err.message : 'Failed to refine preview. Please try again.');
+    } finally {
+      setIsRefining(false);
     }
   };
 
@@ -226,14 +412,9 @@ export default function PreviewPage() {
             />
             <div className="mt-6">
               <ProgressSteps
-                currentStep={3}
-                totalSteps={4}
-                steps={[
-                  "Upload your photo",
-                  "Choose customization",
-                  "Generate preview",
-                  "Download your portrait"
-                ]}
+                currentStep={Math.max(1, GENERATION_STEPS.findIndex(step => step.stage === jobStage) + 1)}
+                totalSteps={GENERATION_STEPS.length}
+                steps={GENERATION_STEPS.map(step => step.label)}
               />
             </div>
           </div>
@@ -356,6 +537,116 @@ export default function PreviewPage() {
                 error={error || undefined}
                 generationId={generation?.id}
               />
+
+              {/* Candidate Picker */}
+              {candidates.length > 1 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Choose Your Favorite</CardTitle>
+                    <CardDescription>
+                      We generated {candidates.length} variations. Select the one you&apos;d like to purchase.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                      {candidates.map((candidate, index) => {
+                        const selected = candidate.id === generation?.id;
+                        return (
+                          <button
+                            key={candidate.id}
+                            type="button"
+                            onClick={() => selectCandidate(candidate)}
+                            aria-pressed={selected}
+                            aria-label={`Select variation ${index + 1}`}
+                            className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-gray-100 transition-colors ${
+                              selected ? 'border-blue-600 ring-2 ring-blue-200' : 'border-transparent hover:border-gray-300'
+                            }`}
+                          >
+                            <Image
+                              src={candidate.imageUrl}
+                              alt={`Portrait variation ${index + 1}`}
+                              fill
+                              className="object-cover"
+                            />
+                            {selected && (
+                              <span className="absolute top-1 right-1 bg-blue-600 text-white rounded-full p-0.5">
+                                <CheckCircle className="w-4 h-4" />
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Refinement */}
+              {generation && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Wand2 className="w-5 h-5" />
+                      Refine This Portrait
+                    </CardTitle>
+                    <CardDescription>
+                      Ask for a small change, like &quot;darker suit&quot; or &quot;remove glasses glare&quot;.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        handleRefine();
+                      }}
+                    >
+                      <Input
+                        value={instruction}
+                        onChange={(event) => setInstruction(event.target.value)}
+                        maxLength={REFINE_CONFIG.MAX_INSTRUCTION_LENGTH}
+                        placeholder="Describe the change"
+                        disabled={isRefining}
+                        aria-label="Refinement instruction"
+                      />
+                      <Button type="submit" disabled={isRefining || !instruction.trim()}>
+                        {isRefining ? 'Refining...' : 'Apply'}
+                      </Button>
+                    </form>
+
+                    {refineError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{refineError}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    {versions.length > 1 && (
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                          <History className="w-4 h-4" />
+                          Versions
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {versions.map((version, index) => (
+                            <Button
+                              key={version.generation.id}
+                              type="button"
+                              size="sm"
+                              variant={index === versionIndex ? 'default' : 'outline'}
+                              onClick={() => selectVersion(index)}
+                              disabled={isRefining}
+                              aria-pressed={index === versionIndex}
+                            >
+                              {index === 0 ? 'Original' : `v${index + 1}: ${version.instruction}`}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Details Section */}
@@ -372,7 +663,7 @@ export default function PreviewPage() {
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-600">Background:</span>
                     <Badge variant="outline">
-                      {customization.background === 'office' ? 'Office' : 'Studio'}
+                      {CUSTOMIZATION_OPTIONS.BACKGROUNDS.find(option => option.id === customization.background)?.name}
                     </Badge>
                   </div>
                   <div className="flex items-center justify-between">
@@ -383,12 +674,51 @@ export default function PreviewPage() {
                        customization.style === 'creative' ? 'Creative' : 'Casual'}
                     </Badge>
                   </div>
+                  {customization.lighting && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Lighting:</span>
+                      <Badge variant="outline">
+                        {CUSTOMIZATION_OPTIONS.LIGHTING.find(option => option.id === customization.lighting)?.name}
+                      </Badge>
+                    </div>
+                  )}
+                  {customization.composition && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Framing:</span>
+                      <Badge variant="outline">
+                        {CUSTOMIZATION_OPTIONS.COMPOSITIONS.find(option => option.id === customization.composition)?.name}
+                      </Badge>
+                    </div>
+                  )}
+                  {customization.wardrobe?.garment && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Clothing:</span>
+                      <Badge variant="outline">
+                        {[
+                          CUSTOMIZATION_OPTIONS.WARDROBE.COLORS.find(color => color.id === customization.wardrobe?.color)?.name,
+                          CUSTOMIZATION_OPTIONS.WARDROBE.GARMENTS.find(garment => garment.id === customization.wardrobe?.garment)?.name,
+                        ].filter(Boolean).join(' ')}
+                      </Badge>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Use Case:</span>
+                    <Badge variant="outline">
+                      {CUSTOMIZATION_OPTIONS.USE_CASES.find(option => option.id === useCase)?.name}
+                    </Badge>
+                  </div>
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-600">Original Image:</span>
                     <span className="text-sm text-gray-900">
                       {uploadedImage.file?.name || uploadedImage.type || 'Uploaded Image'}
                     </span>
                   </div>
+                  {referenceImages.length > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Reference Photos:</span>
+                      <span className="text-sm text-gray-900">{referenceImages.length}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -404,12 +734,12 @@ export default function PreviewPage() {
                   <div className="text-center">
                     <div className="text-3xl font-bold text-green-800 mb-2">$7.99</div>
                     <div className="text-sm text-green-600 mb-4">
-                      High-resolution, watermark-free download
+                      Full-resolution, watermark-free download
                     </div>
                     <div className="space-y-2 text-sm text-green-700">
                       <div className="flex items-center justify-center gap-2">
                         <CheckCircle className="w-4 h-4" />
-                        <span>2048x2048 resolution</span>
+                        <span>{fullSizeLabel} resolution</span>
                       </div>
                       <div className="flex items-center justify-center gap-2">
                         <CheckCircle className="w-4 h-4" />
@@ -435,7 +765,7 @@ export default function PreviewPage() {
                 <CardContent className="space-y-3">
                   <div className="flex items-center space-x-3">
                     <CheckCircle className="w-5 h-5 text-green-600" />
-                    <span className="text-sm text-gray-700">High-resolution image (2048x2048)</span>
+                    <span className="text-sm text-gray-700">{fullSizeLabel} resolution image</span>
                   </div>
                   <div className="flex items-center space-x-3">
                     <CheckCircle className="w-5 h-5 text-green-600" />
@@ -7,63 +7,58 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { UploadedImage } from "@/types";
+import { UPLOAD_CONFIG } from "@/lib/constants";
+import { BrowserImageUtils } from "@/lib/browser-image";
 import { ArrowLeft, ArrowRight, Camera, CheckCircle } from "lucide-react";
 import { LoadingCard } from "@/components/ui/LoadingStates";
 import Link from "next/link";
 
-// Helper function to convert File to base64
-const convertFileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix to get just the base64 data
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
-
 export default function UploadPage() {
   const router = useRouter();
-  const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
+  const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
   const handleUpload = (image: UploadedImage) => {
-    setUploadedImage(image);
+    setUploadedImages(previous => [...previous, image]);
     setError(null);
   };
 
+  const handleRemove = (imageId: string) => {
+    setUploadedImages(previous => previous.filter(image => image.id !== imageId));
+  };
+
   const handleError = (errorMessage: string) => {
     setError(errorMessage);
   };
 
   const handleContinue = async () => {
-    if (uploadedImage) {
+    if (uploadedImages.length > 0) {
       setIsProcessing(true);
       try {
-        // Convert file to base64 for storage
-        const imageBase64 = await convertFileToBase64(uploadedImage.file);
-        
-        // Create a serializable image object
-        const serializableImage = {
-          id: uploadedImage.id,
-          preview: uploadedImage.preview,
-          size: uploadedImage.size,
-          type: uploadedImage.type,
-          dimensions: uploadedImage.dimensions,
-          uploadedAt: uploadedImage.uploadedAt.toISOString(),
-          base64Data: imageBase64,
-        };
+        // Shrink photos to the model's input size so they fit in session storage
+        const serializableImages = await Promise.all(uploadedImages.map(async (image) => ({
+          id: image.id,
+          preview: image.preview,
+          uploadedAt: image.uploadedAt.toISOString(),
+          ...await BrowserImageUtils.toStorable(image.file),
+        })));
+        const [mainImage, ...referenceImages] = serializableImages;
         
-        // Store the serializable image in session storage
-        sessionStorage.setItem("uploadedImage", JSON.stringify(serializableImage));
+        // Store the main photo and any extra reference photos in session storage
+        sessionStorage.setItem("uploadedImage", JSON.stringify(mainImage));
+        if (referenceImages.length > 0) {
+          sessionStorage.setItem("referenceImages", JSON.stringify(referenceImages));
+        } else {
+          sessionStorage.removeItem("referenceImages");
+        }
         router.push("/customize");
-      } catch {
-        setError("Failed to process image. Please try again.");
+      } catch (err) {
+        setError(
+          BrowserImageUtils.isQuotaExceeded(err)
+            ? "Your photos are too large to keep in this browser. Please remove a photo and try again."
+            : "Failed to process image. Please try again."
+        );
         setIsProcessing(false);
       }
     }
@@ -153,20 +148,24 @@ export default function UploadPage() {
             <div className="space-y-6">
               <div className="text-center lg:text-left">
                 <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-4">
-                  Upload Your Photo
+                  Upload Your Photos
                 </h1>
                 <p className="text-sm sm:text-lg text-gray-600 mb-6">
                   Choose a clear photo of yourself. Any casual photo works - we&apos;ll transform it into a professional portrait.
+                  Add 2-{UPLOAD_CONFIG.MAX_FILES} photos of yourself from different angles for the best likeness.
                 </p>
               </div>
 
               <PhotoUpload
                 onUpload={handleUpload}
                 onError={handleError}
+                onRemove={handleRemove}
+                maxFiles={UPLOAD_CONFIG.MAX_FILES}
+                title="Upload your photos"
                 disabled={false}
               />
 
-              {uploadedImage && (
+              {uploadedImages.length > 0 && (
                 <Card className="border-green-200 bg-green-50">
                   <CardContent className="p-4">
                     <div className="flex items-center space-x-2 text-green-700">
@@ -174,7 +173,9 @@ export default function UploadPage() {
                       <span className="font-medium">Ready to continue!</span>
                     </div>
                     <p className="text-sm text-green-600 mt-1">
-                      Your image has been uploaded successfully. Click continue to customize your portrait.
+                      {uploadedImages.length === 1
+                        ? "Your image has been uploaded successfully. Add more photos for better likeness, or click continue to customize your portrait."
+                        : `${uploadedImages.length} photos uploaded successfully. Click continue to customize your portrait.`}
                     </p>
                   </CardContent>
                 </Card>
@@ -274,7 +275,7 @@ export default function UploadPage() {
           </div>
 
           {/* Continue Button */}
-          {uploadedImage && (
+          {uploadedImages.length > 0 && (
             <div className="flex justify-center mt-6 sm:mt-8 px-4">
               <Button 
                 size="lg" 
@@ -2,9 +2,9 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CustomizationOptions as CustomizationOptionsType } from "@/types";
-import { CUSTOMIZATION_OPTIONS } from "@/lib/constants";
-import { Building2, Camera, Check } from "lucide-react";
+import { CustomizationOptions as CustomizationOptionsType, WardrobeOptions } from "@/types";
+import { CUSTOMIZATION_OPTIONS, WARDROBE_CONFIG } from "@/lib/constants";
+import { Building2, Camera, Check, Shirt, Sun } from "lucide-react";
 import { useState } from "react";
 
 interface CustomizationOptionsProps {
@@ -20,6 +20,9 @@ export function CustomizationOptions({
 }: CustomizationOptionsProps) {
   const [selectedBackground, setSelectedBackground] = useState<CustomizationOptionsType['background']>(options.background);
   const [selectedStyle, setSelectedStyle] = useState<CustomizationOptionsType['style']>(options.style);
+  const [selectedLighting, setSelectedLighting] = useState<CustomizationOptionsType['lighting']>(options.lighting);
+  const [selectedComposition, setSelectedComposition] = useState<CustomizationOptionsType['composition']>(options.composition);
+  const [wardrobe, setWardrobe] = useState<WardrobeOptions>(options.wardrobe || {});
 
   const handleBackgroundChange = (background: CustomizationOptionsType['background']) => {
     if (disabled) return;
@@ -33,6 +36,54 @@ export function CustomizationOptions({
     onChange({ ...options, style });
   };
 
+  // Clicking the selected lighting again falls back to the background's own lighting
+  const handleLightingChange = (lighting: CustomizationOptionsType['lighting']) => {
+    if (disabled) return;
+    const next = selectedLighting === lighting ? undefined : lighting;
+    setSelectedLighting(next);
+    onChange({ ...options, lighting: next });
+  };
+
+  const handleCompositionChange = (composition: CustomizationOptionsType['composition']) => {
+    if (disabled) return;
+    setSelectedComposition(composition);
+    onChange({ ...options, composition });
+  };
+
+  // Clicking the selected value again clears it, falling back to the style's default
+  const handleWardrobeChange = <K extends keyof WardrobeOptions>(key: K, value: WardrobeOptions[K]) => {
+    if (disabled) return;
+    const next = { ...wardrobe, [key]: wardrobe[key] === value ? undefined : value };
+    setWardrobe(next);
+    onChange({ ...options, wardrobe: next });
+  };
+
+  const toggleAccessory = (accessory: NonNullable<WardrobeOptions['accessories']>[number]) => {
+    if (disabled) return;
+    const current = wardrobe.accessories || [];
+    let accessories = current.includes(accessory)
+      ? current.filter(item => item !== accessory)
+      : [...current, accessory];
+
+    // A tie and a bow tie are mutually exclusive
+    if (accessory === 'tie' || accessory === 'bow-tie') {
+      const other = accessory === 'tie' ? 'bow-tie' : 'tie';
+      accessories = accessories.filter(item => item !== other);
+    }
+    if (accessories.length > WARDROBE_CONFIG.MAX_ACCESSORIES) return;
+
+    const next = { ...wardrobe, accessories: accessories.length > 0 ? accessories : undefined };
+    setWardrobe(next);
+    onChange({ ...options, wardrobe: next });
+  };
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 rounded-full border text-sm transition-colors ${
+      selected
+        ? "border-blue-500 bg-blue-50 text-blue-700"
+        : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+    } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`;
+
   return (
     <div className="space-y-8">
       {/* Background Selection */}
@@ -135,6 +186,168 @@ export function CustomizationOptions({
         </div>
       </div>
 
+      {/* Lighting & Framing */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          <Sun className="w-5 h-5" />
+          Lighting &amp; Framing
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Optional. Without a lighting choice we match the lighting to your background.
+        </p>
+        <Card>
+          <CardContent className="p-4 space-y-5">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Lighting</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {CUSTOMIZATION_OPTIONS.LIGHTING.map((lighting) => (
+                  <button
+                    key={lighting.id}
+                    type="button"
+                    className={`text-left rounded-lg border p-3 transition-colors ${
+                      selectedLighting === lighting.id
+                        ? "border-blue-500 bg-blue-50"
+                        : "border-gray-200 bg-white hover:bg-gray-50"
+                    } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+                    onClick={() => handleLightingChange(lighting.id)}
+                    disabled={disabled}
+                  >
+                    <span className="block text-sm font-medium text-gray-900">{lighting.name}</span>
+                    <span className="block text-xs text-gray-600">{lighting.description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Framing</h4>
+              <div className="flex flex-wrap gap-2">
+                {CUSTOMIZATION_OPTIONS.COMPOSITIONS.map((composition) => (
+                  <button
+                    key={composition.id}
+                    type="button"
+                    title={composition.description}
+                    className={chipClass((selectedComposition || 'head-and-shoulders') === composition.id)}
+                    onClick={() => handleCompositionChange(composition.id)}
+                    disabled={disabled}
+                  >
+                    {composition.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Wardrobe & Grooming */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          <Shirt className="w-5 h-5" />
+          Wardrobe &amp; Grooming
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Optional. Anything you leave unselected follows your chosen style.
+        </p>
+        <Card>
+          <CardContent className="p-4 space-y-5">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Clothing</h4>
+              <div className="flex flex-wrap gap-2">
+                {CUSTOMIZATION_OPTIONS.WARDROBE.GARMENTS.map((garment) => (
+                  <button
+                    key={garment.id}
+                    type="button"
+                    title={garment.description}
+                    className={chipClass(wardrobe.garment === garment.id)}
+                    onClick={() => handleWardrobeChange('garment', garment.id)}
+                    disabled={disabled}
+                  >
+                    {garment.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Color</h4>
+              <div className="flex flex-wrap gap-2">
+                {CUSTOMIZATION_OPTIONS.WARDROBE.COLORS.map((color) => (
+                  <button
+                    key={color.id}
+                    type="button"
+                    title={color.name}
+                    aria-label={color.name}
+                    className={`w-8 h-8 rounded-full border-2 transition-shadow ${
+                      wardrobe.color === color.id
+                        ? "border-blue-500 ring-2 ring-blue-200"
+                        : "border-gray-200 hover:shadow-md"
+                    } ${disabled ? "opacity-50 cursor-not-allowed" : ""}`}
+                    style={{ backgroundColor: color.hex }}
+                    onClick={() => handleWardrobeChange('color', color.id)}
+                    disabled={disabled}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                Accessories <span className="font-normal text-gray-500">(up to {WARDROBE_CONFIG.MAX_ACCESSORIES})</span>
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {CUSTOMIZATION_OPTIONS.WARDROBE.ACCESSORIES.map((accessory) => (
+                  <button
+                    key={accessory.id}
+                    type="button"
+                    className={chipClass(!!wardrobe.accessories?.includes(accessory.id))}
+                    onClick={() => toggleAccessory(accessory.id)}
+                    disabled={disabled}
+                  >
+                    {accessory.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Glasses</h4>
+                <div className="flex flex-wrap gap-2">
+                  {CUSTOMIZATION_OPTIONS.WARDROBE.GLASSES.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      className={chipClass(wardrobe.glasses === option.id)}
+                      onClick={() => handleWardrobeChange('glasses', option.id)}
+                      disabled={disabled}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Hair</h4>
+                <div className="flex flex-wrap gap-2">
+                  {CUSTOMIZATION_OPTIONS.WARDROBE.HAIR.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      className={chipClass(wardrobe.hair === option.id)}
+                      onClick={() => handleWardrobeChange('hair', option.id)}
+                      disabled={disabled}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Selection Summary */}
       <Card className="bg-gray-50">
         <CardContent className="p-4">
@@ -146,6 +359,29 @@ export function CustomizationOptions({
             <Badge variant="outline" className="bg-white">
               Style: {CUSTOMIZATION_OPTIONS.STYLES.find(style => style.id === selectedStyle)?.name}
             </Badge>
+            {selectedLighting && (
+              <Badge variant="outline" className="bg-white">
+                Lighting: {CUSTOMIZATION_OPTIONS.LIGHTING.find(lighting => lighting.id === selectedLighting)?.name}
+              </Badge>
+            )}
+            <Badge variant="outline" className="bg-white">
+              Framing: {CUSTOMIZATION_OPTIONS.COMPOSITIONS.find(
+                composition => composition.id === (selectedComposition || 'head-and-shoulders')
+              )?.name}
+            </Badge>
+            {(wardrobe.garment || wardrobe.color) && (
+              <Badge variant="outline" className="bg-white">
+                Clothing: {[
+                  CUSTOMIZATION_OPTIONS.WARDROBE.COLORS.find(color => color.id === wardrobe.color)?.name,
+                  CUSTOMIZATION_OPTIONS.WARDROBE.GARMENTS.find(garment => garment.id === wardrobe.garment)?.name,
+                ].filter(Boolean).join(' ')}
+              </Badge>
+            )}
+            {wardrobe.accessories?.map(accessory => (
+              <Badge key={accessory} variant="outline" className="bg-white">
+                {CUSTOMIZATION_OPTIONS.WARDROBE.ACCESSORIES.find(option => option.id === accessory)?.name}
+              </Badge>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -150,17 +150,17 @@ export function ProgressSteps({
           <div 
             key={index}
             className={`flex items-center space-x-3 ${
-              index < currentStep ? 'text-green-600' : 
+              index < currentStep - 1 ? 'text-green-600' : 
               index === currentStep - 1 ? 'text-blue-600' : 
               'text-gray-400'
             }`}
           >
             <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold ${
-              index < currentStep ? 'bg-green-100' : 
+              index < currentStep - 1 ? 'bg-green-100' : 
               index === currentStep - 1 ? 'bg-blue-100' : 
               'bg-gray-100'
             }`}>
-              {index < currentStep ? '✓' : index + 1}
+              {index < currentStep - 1 ? '✓' : index + 1}
             </div>
             <span className="text-sm">{step}</span>
           </div>
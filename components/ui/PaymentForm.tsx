@@ -20,12 +20,13 @@ const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
 
 interface PaymentFormInnerProps {
   amount: number;
+  generationId: string;
   onSuccess: (payment: PaymentResponse) => void;
   onError: (error: string) => void;
   disabled?: boolean;
 }
 
-function PaymentFormInner({ amount, onSuccess, onError, disabled }: PaymentFormInnerProps) {
+function PaymentFormInner({ amount, generationId, onSuccess, onError, disabled }: PaymentFormInnerProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isLoading, setIsLoading] = useState(false);
@@ -58,6 +59,7 @@ function PaymentFormInner({ amount, onSuccess, onError, disabled }: PaymentFormI
         body: JSON.stringify({
           amount: amount,
           currency: 'usd',
+          generationId,
         }),
       });
 
@@ -162,7 +164,7 @@ function PaymentFormInner({ amount, onSuccess, onError, disabled }: PaymentFormI
   );
 }
 
-export function PaymentForm({ amount, onSuccess, onError, disabled }: PaymentFormProps) {
+export function PaymentForm({ amount, generationId, onSuccess, onError, disabled }: PaymentFormProps) {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -179,6 +181,7 @@ export function PaymentForm({ amount, onSuccess, onError, disabled }: PaymentFor
           body: JSON.stringify({
             amount: amount,
             currency: 'usd',
+            generationId,
           }),
         });
 
@@ -197,7 +200,7 @@ export function PaymentForm({ amount, onSuccess, onError, disabled }: PaymentFor
     };
 
     createPaymentIntent();
-  }, [amount]);
+  }, [amount, generationId]);
 
   // Check if Stripe publishable key is available
   if (!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY) {
@@ -262,6 +265,7 @@ export function PaymentForm({ amount, onSuccess, onError, disabled }: PaymentFor
     <Elements stripe={stripePromise} options={options}>
       <PaymentFormInner
         amount={amount}
+        generationId={generationId}
         onSuccess={onSuccess}
         onError={onError}
         disabled={disabled}
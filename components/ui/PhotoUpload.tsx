@@ -15,74 +15,66 @@ import { Upload, X, CheckCircle, AlertCircle } from "lucide-react";
 interface PhotoUploadProps {
   onUpload: (image: UploadedImage) => void;
   onError: (error: string) => void;
+  onRemove?: (imageId: string) => void;
   maxSize?: number;
   acceptedTypes?: string[];
+  maxFiles?: number;
   disabled?: boolean;
+  title?: string;
 }
 
 export function PhotoUpload({
   onUpload,
   onError,
+  onRemove,
   maxSize = UPLOAD_CONFIG.MAX_SIZE,
   acceptedTypes = [...UPLOAD_CONFIG.ACCEPTED_TYPES],
+  maxFiles = 1,
   disabled = false,
+  title = "Upload your photo",
 }: PhotoUploadProps) {
   const [uploading, setUploading] = useState(false);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<UploadedImage[]>([]);
   const [error, setError] = useState<string | null>(null);
 
+  const remainingSlots = maxFiles - uploads.length;
+
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
-      const file = acceptedFiles[0];
-      if (!file) return;
+      if (acceptedFiles.length === 0) return;
 
       setError(null);
       setUploading(true);
 
-      try {
-        // Validate file size
-        if (file.size > maxSize) {
-          throw new Error(`File size must be less than ${Math.round(maxSize / 1024 / 1024)}MB`);
-        }
+      // Validate each photo on its own so one bad file doesn't reject the rest
+      const errors: string[] = [];
+      const files = acceptedFiles.slice(0, Math.max(remainingSlots, 0));
+      if (acceptedFiles.length > files.length) {
+        errors.push(`You can upload up to ${maxFiles} photo${maxFiles === 1 ? "" : "s"}`);
+      }
 
-        // Validate file type
-        if (!acceptedTypes.includes(file.type)) {
-          throw new Error(`File type must be one of: ${acceptedTypes.join(", ")}`);
+      const accepted: UploadedImage[] = [];
+      for (const file of files) {
+        try {
+          accepted.push(await validateFile(file, maxSize, acceptedTypes));
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : "Failed to upload image";
+          errors.push(maxFiles > 1 ? `${file.name}: ${errorMessage}` : errorMessage);
         }
+      }
 
-        // Create preview
-        const previewUrl = URL.createObjectURL(file);
-
-        // Get image dimensions
-        const dimensions = await getImageDimensions(file);
-
-        // Validate dimensions
-        if (dimensions.width < UPLOAD_CONFIG.MIN_DIMENSIONS || 
-            dimensions.height < UPLOAD_CONFIG.MIN_DIMENSIONS) {
-          throw new Error(`Image must be at least ${UPLOAD_CONFIG.MIN_DIMENSIONS}x${UPLOAD_CONFIG.MIN_DIMENSIONS} pixels`);
-        }
+      setUploads(previous => [...previous, ...accepted]);
+      accepted.forEach(image => onUpload(image));
 
-        const uploadedImage: UploadedImage = {
-          id: crypto.randomUUID(),
-          file,
-          preview: previewUrl,
-          size: file.size,
-          type: file.type,
-          dimensions,
-          uploadedAt: new Date(),
-        };
-
-        setPreview(previewUrl);
-        onUpload(uploadedImage);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Failed to upload image";
+      if (errors.length > 0) {
+        const errorMessage = errors.join(". ");
         setError(errorMessage);
         onError(errorMessage);
-      } finally {
-        setUploading(false);
       }
+
+      setUploading(false);
     },
-    [maxSize, acceptedTypes, onUpload, onError]
+    [maxSize, acceptedTypes, maxFiles, remainingSlots, onUpload, onError]
   );
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
@@ -92,18 +84,25 @@ export function PhotoUpload({
       "image/png": [".png"],
       "image/webp": [".webp"],
     },
-    maxFiles: 1,
-    disabled: disabled || uploading,
+    multiple: maxFiles > 1,
+    disabled: disabled || uploading || remainingSlots <= 0,
   });
 
+  const removeImage = (image: UploadedImage) => {
+    URL.revokeObjectURL(image.preview);
+    setUploads(previous => previous.filter(upload => upload.id !== image.id));
+    setError(null);
+    onRemove?.(image.id);
+  };
+
   const clearImage = () => {
-    if (preview) {
-      URL.revokeObjectURL(preview);
+    if (uploads[0]) {
+      removeImage(uploads[0]);
     }
-    setPreview(null);
-    setError(null);
   };
 
+  const preview = maxFiles === 1 ? uploads[0]?.preview ?? null : null;
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <Card className="border-2 border-dashed border-gray-300 hover:border-gray-400 transition-colors">
@@ -116,7 +115,7 @@ export function PhotoUpload({
                 transition-colors duration-200
                 ${isDragActive && !isDragReject ? "bg-blue-50 border-blue-300" : ""}
                 ${isDragReject ? "bg-red-50 border-red-300" : ""}
-                ${disabled || uploading ? "opacity-50 cursor-not-allowed" : ""}
+                ${disabled || uploading || remainingSlots <= 0 ? "opacity-50 cursor-not-allowed" : ""}
               `}
             >
               <input {...getInputProps()} />
@@ -136,16 +135,26 @@ export function PhotoUpload({
                     {isDragActive
                       ? isDragReject
                         ? "File type not supported"
-                        : "Drop your photo here"
-                      : "Upload your photo"}
+                        : maxFiles > 1 ? "Drop your photos here" : "Drop your photo here"
+                      : remainingSlots <= 0
+                        ? `All ${maxFiles} photos added`
+                        : title}
                   </h3>
                   
                   <p className="text-gray-600 mb-4 text-sm sm:text-base">
-                    Drag and drop your image here, or click to select
+                    {maxFiles > 1
+                      ? `Drag and drop up to ${maxFiles} photos of the same person, or click to select`
+                      : "Drag and drop your image here, or click to select"}
                   </p>
                   
-                  <Button type="button" variant="outline" size="sm" className="sm:size-default" disabled={disabled || uploading}>
-                    Choose File
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="sm:size-default"
+                    disabled={disabled || uploading || remainingSlots <= 0}
+                  >
+                    {maxFiles > 1 ? "Choose Files" : "Choose File"}
                   </Button>
                   
                   <div className="mt-4 text-xs sm:text-sm text-gray-500">
@@ -188,6 +197,45 @@ export function PhotoUpload({
         </CardContent>
       </Card>
 
+      {maxFiles > 1 && uploads.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2 text-xs sm:text-sm text-gray-600">
+            <span>{uploads.length} of {maxFiles} photos</span>
+            <span>The first photo is the one we transform</span>
+          </div>
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {uploads.map((upload, index) => (
+              <div
+                key={upload.id}
+                className="relative w-20 h-20 sm:w-24 sm:h-24 flex-shrink-0 rounded-lg overflow-hidden bg-gray-100"
+              >
+                <Image
+                  src={upload.preview}
+                  alt={`Uploaded photo ${index + 1}`}
+                  fill
+                  className="object-cover"
+                />
+                {index === 0 && (
+                  <span className="absolute bottom-1 left-1 rounded bg-blue-600 px-1.5 py-0.5 text-[10px] font-medium text-white">
+                    Main
+                  </span>
+                )}
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  className="absolute top-1 right-1 h-6 w-6 p-0"
+                  onClick={() => removeImage(upload)}
+                  disabled={uploading}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {error && (
         <Alert variant="destructive" className="mt-4">
           <AlertCircle className="h-4 w-4" />
@@ -198,6 +246,38 @@ export function PhotoUpload({
   );
 }
 
+// Helper function to validate a file and build its UploadedImage
+async function validateFile(file: File, maxSize: number, acceptedTypes: string[]): Promise<UploadedImage> {
+  // Validate file size
+  if (file.size > maxSize) {
+    throw new Error(`File size must be less than ${Math.round(maxSize / 1024 / 1024)}MB`);
+  }
+
+  // Validate file type
+  if (!acceptedTypes.includes(file.type)) {
+    throw new Error(`File type must be one of: ${acceptedTypes.join(", ")}`);
+  }
+
+  // Get image dimensions
+  const dimensions = await getImageDimensions(file);
+
+  // Validate dimensions
+  if (dimensions.width < UPLOAD_CONFIG.MIN_DIMENSIONS || 
+      dimensions.height < UPLOAD_CONFIG.MIN_DIMENSIONS) {
+    throw new Error(`Image must be at least ${UPLOAD_CONFIG.MIN_DIMENSIONS}x${UPLOAD_CONFIG.MIN_DIMENSIONS} pixels`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    file,
+    preview: URL.createObjectURL(file),
+    size: file.size,
+    type: file.type,
+    dimensions,
+    uploadedAt: new Date(),
+  };
+}
+
 // Helper function to get image dimensions
 function getImageDimensions(file: File): Promise<{ width: number; height: number }> {
   return new Promise((resolve, reject) => {
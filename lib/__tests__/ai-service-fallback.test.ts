@@ -0,0 +1,93 @@
+import { aiService } from '../ai-service';
+
+const mockGenerate = jest.fn();
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getAIConfig: () => ({
+      apiKey: 'test-api-key',
+      model: 'gemini-2.5-flash-image-preview',
+      provider: 'gemini',
+      maxRetries: 0,
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    }),
+  },
+}));
+
+jest.mock('../providers', () => ({
+  createImageProvider: () => ({
+    name: 'gemini',
+    generate: mockGenerate,
+    isConfigured: () => true,
+  }),
+}));
+
+const request = {
+  image: {
+    id: 'test-id',
+    file: new File(['test'], 'test.jpg', { type: 'image/jpeg' }),
+    preview: 'blob:test',
+    size: 1024,
+    type: 'image/jpeg',
+    dimensions: { width: 512, height: 512 },
+    uploadedAt: new Date(),
+    base64Data: 'aW1hZ2U=',
+  },
+  options: { background: 'office' as const, style: 'professional' as const },
+  size: 'preview' as const,
+  prompt: 'Test prompt',
+};
+
+describe('AIService fallback and circuit breakers', () => {
+  beforeEach(() => {
+    mockGenerate.mockReset();
+  });
+
+  it('should not retry, fall back or trip the circuit on a blocked response', async () => {
+    mockGenerate.mockRejectedValue(
+      new Error('Failed to generate image: Request blocked by safety filters (prompt: PROHIBITED_CONTENT)')
+    );
+
+    for (let index = 0; index < 10; index++) {
+      const result = await aiService.generatePortrait(request);
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('SAFETY_BLOCKED');
+    }
+
+    expect(mockGenerate).toHaveBeenCalledTimes(10);
+    expect(Object.values(aiService.getServiceInfo().circuits)).toEqual(['closed', 'closed']);
+  });
+
+  it('should fall back to the next model on a transport error', async () => {
+    mockGenerate
+      .mockRejectedValueOnce(new Error('Failed to generate image: fetch failed'))
+      .mockResolvedValueOnce({ imageData: 'b3V0cHV0', cost: 0 });
+
+    const result = await aiService.generatePortrait(request);
+
+    expect(result.success).toBe(true);
+    expect(result.model).toBe('gemini-2.5-flash-image');
+    expect(mockGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fall back or count a cancelled generation', async () => {
+    mockGenerate.mockRejectedValue(new Error('Generation cancelled'));
+
+    const result = await aiService.generatePortrait(request);
+
+    expect(result.errorCode).toBe('CANCELLED');
+    expect(mockGenerate).toHaveBeenCalledTimes(1);
+    expect(Object.values(aiService.getServiceInfo().circuits)).toEqual(['closed', 'closed']);
+  });
+
+  it('should fall back to the next model when the service is unavailable', async () => {
+    mockGenerate
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockResolvedValueOnce({ imageData: 'b3V0cHV0', cost: 0 });
+
+    const result = await aiService.generatePortrait(request);
+
+    expect(result.success).toBe(true);
+    expect(result.model).toBe('gemini-2.5-flash-image');
+  });
+});
@@ -185,6 +185,43 @@ describe('AI Utils', () => {
       expect(parsed.retryable).toBe(true);
     });
 
+    it('should match provider wording regardless of case', () => {
+      expect(ErrorUtils.parseAIError(new Error('Deadline expired before operation could complete.')).code).toBe('TIMEOUT');
+      expect(ErrorUtils.parseAIError(new Error('504 Gateway Timeout')).code).toBe('TIMEOUT');
+      expect(ErrorUtils.parseAIError(new Error('Too Many Requests')).code).toBe('RATE_LIMITED');
+      expect(ErrorUtils.parseAIError(new Error('RESOURCE_EXHAUSTED')).code).toBe('QUOTA_EXCEEDED');
+    });
+
+    it('should treat 500, 502 and 503 as service outages', () => {
+      for (const message of ['500 Internal Server Error', '502 Bad Gateway', '503 Service Unavailable']) {
+        const parsed = ErrorUtils.parseAIError(new Error(`Failed to generate image: ${message}`));
+        expect(parsed.code).toBe('SERVICE_UNAVAILABLE');
+        expect(parsed.retryable).toBe(true);
+      }
+    });
+
+    it('should only report safety blocks for the provider block message', () => {
+      expect(ErrorUtils.parseAIError(
+        new Error('Failed to generate image: Request blocked by safety filters (finish reason: IMAGE_SAFETY)')
+      ).code).toBe('SAFETY_BLOCKED');
+      expect(ErrorUtils.parseAIError(new Error('403 API_KEY_SERVICE_BLOCKED')).code).toBe('INVALID_API_KEY');
+      expect(ErrorUtils.parseAIError(
+        new Error('Requests to this API generativelanguage.googleapis.com are blocked.')
+      ).code).not.toBe('SAFETY_BLOCKED');
+    });
+
+    it('should not retry an input image the provider cannot read', () => {
+      const parsed = ErrorUtils.parseAIError(new Error('Failed to generate image: Unable to process input image'));
+      expect(parsed.code).toBe('INVALID_IMAGE');
+      expect(parsed.retryable).toBe(false);
+    });
+
+    it('should keep our own deadline apart from provider timeouts', () => {
+      const parsed = ErrorUtils.parseAIError(new Error('Generation deadline exceeded'));
+      expect(parsed.code).toBe('DEADLINE_EXCEEDED');
+      expect(parsed.retryable).toBe(false);
+    });
+
     it('should determine retryable errors', () => {
       const retryableError = new Error('Rate limit exceeded');
       const nonRetryableError = new Error('Invalid API key');
@@ -218,6 +255,36 @@ describe('AI Utils', () => {
 
       expect(total).toBe(metrics1.cost + metrics2.cost);
     });
+
+    it('should price token usage per model', () => {
+      const tokensUsed = {
+        promptTokens: 400,
+        imageTokens: 258,
+        outputTokens: 1290,
+        outputImageTokens: 1290,
+        totalTokens: 1948,
+      };
+      const metrics = MetricsUtils.createMetrics(0, 1000, 'gemini-2.5-flash-image-preview', 'preview', { tokensUsed });
+
+      // 658 input tokens at $0.30/1M + 1290 image tokens at $30/1M
+      expect(metrics.cost).toBe(0.0388974);
+      expect(metrics.tokensUsed).toEqual(tokensUsed);
+    });
+
+    it('should keep total cost exact across many generations', () => {
+      const tokensUsed = {
+        promptTokens: 1,
+        imageTokens: 0,
+        outputTokens: 0,
+        outputImageTokens: 0,
+        totalTokens: 1,
+      };
+      const metrics = Array.from({ length: 10 }, () =>
+        MetricsUtils.createMetrics(0, 1000, 'gemini-2.5-flash-image-preview', 'preview', { tokensUsed })
+      );
+
+      expect(MetricsUtils.calculateTotalCost(metrics)).toBe(0.000003);
+    });
   });
 });
 
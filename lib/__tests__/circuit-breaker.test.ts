@@ -0,0 +1,76 @@
+import { CircuitBreaker } from '../circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createBreaker = () =>
+    new CircuitBreaker('test-model', { failureThreshold: 2, resetTimeoutMs: 1000, halfOpenMaxProbes: 1 });
+
+  it('should open after consecutive failures and fail fast', () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should allow a single probe once half-open', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should close when the probe succeeds', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should reopen when the probe fails', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should stay half-open and free the probe when it is released', () => {
+    const breaker = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    breaker.allowRequest();
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+import { ContentModerationService } from '../content-moderation';
+import { RuleBasedClassifier } from '../moderation';
+
+const createPhoto = async (background: string): Promise<string> => {
+  const buffer = await sharp({
+    create: { width: 256, height: 256, channels: 3, background },
+  })
+    .jpeg()
+    .toBuffer();
+  return buffer.toString('base64');
+};
+
+describe('ContentModerationService', () => {
+  beforeEach(() => {
+    ContentModerationService.setClassifier(new RuleBasedClassifier());
+    ContentModerationService.clearAll();
+  });
+
+  it('should allow ordinary photos without logging them', async () => {
+    const result = await ContentModerationService.moderate({
+      image: await createPhoto('#3b5b8c'),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.decision).toBe('allow');
+    expect(ContentModerationService.getLog()).toHaveLength(0);
+  });
+
+  it('should deny and log unreadable uploads', async () => {
+    const result = await ContentModerationService.moderate({
+      image: Buffer.from('not an image').toString('base64'),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.decision).toBe('deny');
+    expect(result.reasons[0].category).toBe('unreadable');
+    expect(ContentModerationService.getLog('deny')).toHaveLength(1);
+  });
+
+  it('should send photos dominated by skin tones to review', async () => {
+    const result = await ContentModerationService.moderate({
+      image: await createPhoto('#d2a679'),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.decision).toBe('review');
+    expect(result.reasons[0].category).toBe('explicit');
+  });
+
+  it('should apply custom rules', async () => {
+    ContentModerationService.setClassifier(new RuleBasedClassifier([
+      () => ({ category: 'minor', decision: 'deny', message: 'Photo appears to show a minor' }),
+    ]));
+
+    const result = await ContentModerationService.moderate({
+      image: await createPhoto('#3b5b8c'),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.decision).toBe('deny');
+    expect(result.reasons).toEqual([
+      { category: 'minor', decision: 'deny', message: 'Photo appears to show a minor' },
+    ]);
+  });
+
+  it('should send uploads to review when the classifier fails', async () => {
+    ContentModerationService.setClassifier({
+      name: 'gemini',
+      isConfigured: () => true,
+      classify: async () => {
+        throw new Error('Service unavailable');
+      },
+    });
+
+    const result = await ContentModerationService.moderate({
+      image: await createPhoto('#3b5b8c'),
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.decision).toBe('review');
+    expect(result.reasons[0].category).toBe('classifier-error');
+  });
+});
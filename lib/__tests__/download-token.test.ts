@@ -0,0 +1,40 @@
+import { DownloadTokenService } from '../download-token';
+
+const mockStripeConfig = { secretKey: 'sk_test_123' };
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getStripeConfig: () => mockStripeConfig,
+  },
+}));
+
+describe('DownloadTokenService', () => {
+  beforeEach(() => {
+    mockStripeConfig.secretKey = 'sk_test_123';
+  });
+
+  it('should release the payment intent a token was issued for', () => {
+    const token = DownloadTokenService.issue('pi_123');
+
+    expect(DownloadTokenService.verify(token)).toEqual({ valid: true, paymentIntentId: 'pi_123' });
+  });
+
+  it('should reject missing, tampered and foreign tokens', () => {
+    const token = DownloadTokenService.issue('pi_123');
+
+    expect(DownloadTokenService.verify(undefined).valid).toBe(false);
+    expect(DownloadTokenService.verify('pi_123').valid).toBe(false);
+    expect(DownloadTokenService.verify(token.replace('pi_123', 'pi_456')).error).toBe('Invalid download token');
+
+    mockStripeConfig.secretKey = 'sk_test_other';
+    expect(DownloadTokenService.verify(token).valid).toBe(false);
+  });
+
+  it('should expire tokens an hour after checkout', () => {
+    const issuedAt = Date.now();
+    const token = DownloadTokenService.issue('pi_123', issuedAt);
+
+    expect(DownloadTokenService.verify(token, issuedAt + 59 * 60 * 1000).valid).toBe(true);
+    expect(DownloadTokenService.verify(token, issuedAt + 61 * 60 * 1000).error).toBe('Download token has expired');
+  });
+});
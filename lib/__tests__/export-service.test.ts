@@ -0,0 +1,101 @@
+import sharp from 'sharp';
+import { ExportService, ExportFormat, ExportPreset } from '../export-service';
+import { ForensicWatermarkService } from '../forensic-watermark';
+import { EXPORT_CONFIG } from '../constants';
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getProvenanceConfig: () => ({ signingKey: undefined }),
+    getForensicWatermarkConfig: () => ({ secret: 'test-secret' }),
+  },
+}));
+
+const createImage = async (width: number, height: number): Promise<string> => {
+  const image = await sharp({
+    create: { width, height, channels: 3, background: '#556677' },
+  }).jpeg().toBuffer();
+
+  return image.toString('base64');
+};
+
+const provenance = { generationId: 'gen_123', kind: 'full' as const };
+
+describe('ExportService', () => {
+  it('should fill in defaults and reject unknown options', () => {
+    expect(ExportService.resolveOptions({})).toEqual({
+      success: true,
+      options: { format: 'jpeg', preset: '2048', quality: 'high' },
+    });
+    expect(ExportService.resolveOptions({ format: 'gif' }).error).toContain('Unsupported format: gif');
+    expect(ExportService.resolveOptions({ preset: '8k' }).error).toContain('Unknown size preset: 8k');
+    expect(ExportService.resolveOptions({ quality: 'max' }).error).toContain('Unknown quality: max');
+  });
+
+  it('should crop square presets and never upscale the others', () => {
+    const source = { width: 1536, height: 2048 };
+
+    expect(ExportService.getDimensions('social', source)).toEqual({ width: 400, height: 400 });
+    expect(ExportService.getDimensions('1024', source)).toEqual({ width: 768, height: 1024 });
+    expect(ExportService.getDimensions('2048', { width: 1024, height: 1024 })).toEqual({ width: 1024, height: 1024 });
+  });
+
+  it('should export a labeled WebP at the social size', async () => {
+    const result = await ExportService.export(
+      await createImage(1536, 2048),
+      { format: 'webp', preset: 'social', quality: 'small' },
+      provenance
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.mimeType).toBe('image/webp');
+    expect(result.fileName).toBe('professional-portrait-social.webp');
+
+    const metadata = await sharp(Buffer.from(result.imageData!, 'base64')).metadata();
+    expect(metadata.format).toBe('webp');
+    expect([metadata.width, metadata.height]).toEqual([400, 400]);
+    expect(metadata.xmp?.toString()).toContain('trainedAlgorithmicMedia');
+  });
+
+  it('should set 300 DPI on print exports', async () => {
+    const result = await ExportService.export(
+      await createImage(1024, 1024),
+      { format: 'jpeg', preset: 'print', quality: 'high' },
+      provenance
+    );
+
+    const metadata = await sharp(Buffer.from(result.imageData!, 'base64')).metadata();
+    expect(metadata.density).toBe(300);
+    expect(metadata.xmp?.toString()).toContain('gen_123');
+  });
+
+  describe('forensic watermark', () => {
+    const generationId = '3f2b8c1e-7a4d-4e9b-9c6f-1d2e3f4a5b6c';
+    let source: string;
+
+    beforeAll(async () => {
+      source = await createImage(1024, 1536);
+    });
+
+    // Every preset and format at the smallest quality, including the square
+    // crop of a portrait source
+    const cases = EXPORT_CONFIG.PRESETS.flatMap(preset =>
+      EXPORT_CONFIG.FORMATS.map(format => [preset.id, format.id] as [ExportPreset, ExportFormat])
+    );
+
+    it.each(cases)('should trace a %s %s export back to its purchase', async (preset, format) => {
+      const result = await ExportService.export(
+        source,
+        { format, preset, quality: 'small' },
+        { generationId, kind: 'full' },
+        { paymentIntentId: 'pi_123' }
+      );
+      expect(result.forensicWatermark).toBe(true);
+
+      const verification = await ForensicWatermarkService.verify(result.imageData!);
+
+      expect(verification.detected).toBe(true);
+      expect(verification.payload?.generationId).toBe(generationId);
+      expect(verification.order?.paymentIntentId).toBe('pi_123');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import sharp from 'sharp';
+import { ForensicWatermarkService } from '../forensic-watermark';
+
+const mockConfig: { secret?: string } = { secret: 'test-secret' };
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getForensicWatermarkConfig: () => mockConfig,
+  },
+}));
+
+const GENERATION_ID = '3f2b8c1e-7a4d-4e9b-9c6f-1d2e3f4a5b6c';
+
+// Smooth gradient with a soft shape, like a studio portrait background
+const createImage = async (width: number, height: number): Promise<string> => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="#8fa7c0"/><stop offset="1" stop-color="#2c3e50"/>
+    </linearGradient></defs>
+    <rect width="100%" height="100%" fill="url(#g)"/>
+    <ellipse cx="${width / 2}" cy="${height * 0.4}" rx="${width * 0.2}" ry="${height * 0.25}" fill="#d9a27e"/>
+  </svg>`;
+  const image = await sharp(Buffer.from(svg)).jpeg({ quality: 95 }).toBuffer();
+
+  return image.toString('base64');
+};
+
+const recompress = async (imageData: string, width: number, quality: number): Promise<string> => {
+  const image = await sharp(Buffer.from(imageData, 'base64')).resize(width).jpeg({ quality }).toBuffer();
+
+  return image.toString('base64');
+};
+
+describe('ForensicWatermarkService', () => {
+  beforeEach(() => {
+    mockConfig.secret = 'test-secret';
+    ForensicWatermarkService.clearAll();
+  });
+
+  it('should trace a recompressed, resized download back to its order', async () => {
+    const marked = await ForensicWatermarkService.markPurchase(await createImage(1536, 2048), GENERATION_ID, 'pi_123');
+    expect(marked.success).toBe(true);
+
+    const result = await ForensicWatermarkService.verify(await recompress(marked.imageData!, 800, 70));
+
+    expect(result.detected).toBe(true);
+    expect(result.payload).toEqual({
+      generationId: GENERATION_ID,
+      purchaseHash: ForensicWatermarkService.getPurchaseHash('pi_123'),
+    });
+    expect(result.order?.paymentIntentId).toBe('pi_123');
+  });
+
+  it('should not detect a mark in unmarked images or with another key', async () => {
+    const original = await createImage(1024, 1024);
+    const marked = await ForensicWatermarkService.markPurchase(original, GENERATION_ID, 'pi_123');
+
+    expect((await ForensicWatermarkService.verify(original)).detected).toBe(false);
+
+    mockConfig.secret = 'other-secret';
+    expect((await ForensicWatermarkService.verify(marked.imageData!)).detected).toBe(false);
+  });
+
+  it('should refuse to mark without a secret or a UUID generation ID', async () => {
+    const image = await createImage(512, 512);
+
+    expect((await ForensicWatermarkService.markPurchase(image, 'gen_123', 'pi_123')).error)
+      .toBe('Generation ID must be a UUID');
+
+    mockConfig.secret = undefined;
+    expect((await ForensicWatermarkService.markPurchase(image, GENERATION_ID, 'pi_123')).success).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { GeminiProvider } from '../providers/gemini-provider';
+import { ProviderGenerationRequest } from '../providers/types';
+import { ErrorUtils } from '../ai-utils';
+
+const mockGenerateContent = jest.fn();
+
+jest.mock('@google/genai', () => ({
+  ...jest.requireActual('@google/genai'),
+  GoogleGenAI: jest.fn(() => ({
+    models: { generateContent: mockGenerateContent },
+  })),
+}));
+
+const request: ProviderGenerationRequest = {
+  prompt: 'Test prompt',
+  image: 'aW1hZ2U=',
+  mimeType: 'image/jpeg',
+  model: 'gemini-2.5-flash-image-preview',
+  options: { style: 'professional', background: 'office' },
+  size: 'preview',
+};
+
+const generateError = async (): Promise<Error> => {
+  try {
+    await new GeminiProvider('test-key').generate(request);
+  } catch (error) {
+    return error as Error;
+  }
+  throw new Error('Expected generate to fail');
+};
+
+describe('GeminiProvider', () => {
+  beforeEach(() => {
+    mockGenerateContent.mockReset();
+  });
+
+  it('should report blocked prompts as non-retryable safety blocks', async () => {
+    mockGenerateContent.mockResolvedValue({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } });
+
+    const error = await generateError();
+
+    expect(error.message).toContain('PROHIBITED_CONTENT');
+    expect(ErrorUtils.parseAIError(error)).toMatchObject({ code: 'SAFETY_BLOCKED', retryable: false });
+  });
+
+  it('should report outputs stopped for image safety as safety blocks', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{ finishReason: 'IMAGE_SAFETY', content: { parts: [] } }],
+    });
+
+    const error = await generateError();
+
+    expect(ErrorUtils.parseAIError(error).code).toBe('SAFETY_BLOCKED');
+  });
+
+  it('should pass the abort signal to the SDK', async () => {
+    const controller = new AbortController();
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{ content: { parts: [{ inlineData: { data: 'b3V0cHV0' } }] } }],
+    });
+
+    const result = await new GeminiProvider('test-key').generate({ ...request, signal: controller.signal });
+
+    expect(result.imageData).toBe('b3V0cHV0');
+    expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({
+      config: { abortSignal: controller.signal },
+    }));
+  });
+});
@@ -0,0 +1,45 @@
+import { GenerationJobService } from '../generation-jobs';
+import { JOB_CONFIG } from '../constants';
+
+describe('GenerationJobService', () => {
+  beforeEach(() => {
+    GenerationJobService.clearAll();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fail a job that times out and cancel its task', async () => {
+    jest.useFakeTimers();
+    const job = GenerationJobService.create();
+    let signal: AbortSignal | undefined;
+    let reportStage: ((stage: 'generating') => void) | undefined;
+
+    const running = GenerationJobService.run(job.id, (onStage, taskSignal) => {
+      signal = taskSignal;
+      reportStage = onStage;
+      return new Promise(() => {});
+    });
+
+    await jest.advanceTimersByTimeAsync(JOB_CONFIG.TIMEOUT_MS);
+    await running;
+    reportStage?.('generating');
+
+    const failed = GenerationJobService.get(job.id)!;
+    expect(failed.status).toBe('failed');
+    expect(failed.stage).toBe('failed');
+    expect(failed.error).toContain('timed out');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should leave the result out of the summary', async () => {
+    const job = GenerationJobService.create();
+    await GenerationJobService.run(job.id, async () => ({ status: 200, body: { success: true } }));
+
+    const summary = GenerationJobService.toSummary(GenerationJobService.get(job.id)!);
+
+    expect(summary).not.toHaveProperty('result');
+    expect(summary).toMatchObject({ id: job.id, status: 'completed', httpStatus: 200 });
+  });
+});
@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+import { ImagePreprocessor } from '../image-preprocessing';
+import { PREPROCESSING_CONFIG } from '../constants';
+
+const createImage = async (
+  width: number,
+  height: number,
+  format: 'jpeg' | 'png' | 'webp',
+  orientation?: number
+): Promise<Buffer> => {
+  let image = sharp({
+    create: { width, height, channels: 3, background: '#336699' },
+  });
+
+  if (orientation) {
+    image = image.withMetadata({ orientation });
+  }
+
+  return image.toFormat(format).toBuffer();
+};
+
+// Little-endian EXIF block with a single IFD0 entry whose 4 value bytes are inline
+const createExif = (tag: number, type: number, value: number[]): Buffer => {
+  const tiff = Buffer.alloc(26);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4); // IFD0 offset
+  tiff.writeUInt16LE(1, 8); // Entry count
+  tiff.writeUInt16LE(tag, 10);
+  tiff.writeUInt16LE(type, 12);
+  tiff.writeUInt32LE(value.length, 14);
+  Buffer.from(value).copy(tiff, 18);
+  // Next IFD offset (22) stays 0
+
+  return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+};
+
+// Insert an APP1 segment right after the JPEG start-of-image marker
+const withExifSegment = (jpeg: Buffer, exif: Buffer): Buffer => {
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(exif.length + 2, 2);
+
+  return Buffer.concat([jpeg.subarray(0, 2), header, exif, jpeg.subarray(2)]);
+};
+
+describe('ImagePreprocessor', () => {
+  it('should detect formats from magic bytes', async () => {
+    expect(ImagePreprocessor.detectFormat(await createImage(8, 8, 'jpeg'))).toBe('image/jpeg');
+    expect(ImagePreprocessor.detectFormat(await createImage(8, 8, 'png'))).toBe('image/png');
+    expect(ImagePreprocessor.detectFormat(await createImage(8, 8, 'webp'))).toBe('image/webp');
+    expect(ImagePreprocessor.detectFormat(Buffer.from('GIF89a'))).toBeNull();
+  });
+
+  it('should report a mislabeled format and keep the real one', async () => {
+    const png = await createImage(64, 64, 'png');
+
+    const result = await ImagePreprocessor.preprocess(png.toString('base64'), 'image/jpeg');
+
+    expect(result.success).toBe(true);
+    expect(result.mimeType).toBe('image/png');
+    expect(result.changes).toContain('Image was labeled image/jpeg but is image/png');
+  });
+
+  it('should apply orientation, strip EXIF and downscale', async () => {
+    const jpeg = await createImage(3000, 2000, 'jpeg', 6);
+
+    const result = await ImagePreprocessor.preprocess(jpeg.toString('base64'), 'image/jpeg');
+    const output = await sharp(Buffer.from(result.imageData!, 'base64')).metadata();
+
+    expect(result.success).toBe(true);
+    expect(output.exif).toBeUndefined();
+    expect(output.orientation).toBeUndefined();
+    // Orientation 6 rotates the landscape source into portrait
+    expect(result.dimensions).toEqual({
+      width: Math.round(PREPROCESSING_CONFIG.MAX_DIMENSION * 2 / 3),
+      height: PREPROCESSING_CONFIG.MAX_DIMENSION,
+    });
+    expect(result.changes).toEqual(expect.arrayContaining([
+      'Applied EXIF orientation 6',
+      'Removed EXIF metadata',
+      `Resized from 2000x3000 to ${result.dimensions!.width}x${result.dimensions!.height}`,
+    ]));
+  });
+
+  it('should report GPS data only for the GPS IFD pointer tag', async () => {
+    const jpeg = await createImage(64, 64, 'jpeg');
+    // GPS IFD pointer (LONG) versus an ImageDescription whose text holds the same bytes
+    const withGps = withExifSegment(jpeg, createExif(0x8825, 4, [26, 0, 0, 0]));
+    const withLookalike = withExifSegment(jpeg, createExif(0x010e, 2, [0x25, 0x88, 0x41, 0]));
+
+    const gpsResult = await ImagePreprocessor.preprocess(withGps.toString('base64'), 'image/jpeg');
+    const lookalikeResult = await ImagePreprocessor.preprocess(withLookalike.toString('base64'), 'image/jpeg');
+
+    expect(gpsResult.changes).toContain('Removed EXIF metadata, including GPS location');
+    expect(lookalikeResult.changes).toContain('Removed EXIF metadata');
+    expect(lookalikeResult.changes).not.toContain('Removed EXIF metadata, including GPS location');
+  });
+
+  it('should reject unsupported data', async () => {
+    const result = await ImagePreprocessor.preprocess(Buffer.from('not an image').toString('base64'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unsupported image format');
+  });
+});
@@ -0,0 +1,65 @@
+import sharp from 'sharp';
+import { MockProvider } from '../providers/mock-provider';
+import { ErrorUtils } from '../ai-utils';
+import { ProviderGenerationRequest } from '../providers/types';
+
+const createPhoto = async (): Promise<string> => {
+  const buffer = await sharp({
+    create: { width: 600, height: 600, channels: 3, background: '#d2a679' },
+  })
+    .jpeg()
+    .toBuffer();
+  return buffer.toString('base64');
+};
+
+const createRequest = (
+  image: string,
+  options: ProviderGenerationRequest['options']
+): ProviderGenerationRequest => ({
+  prompt: 'Test prompt',
+  image,
+  mimeType: 'image/png',
+  model: 'mock',
+  options,
+  size: 'preview',
+});
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  it('should always be configured', () => {
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it('should produce identical output for identical requests', async () => {
+    const photo = await createPhoto();
+    const options = { background: 'office', style: 'professional' } as const;
+
+    const first = await provider.generate(createRequest(photo, options));
+    const second = await provider.generate(createRequest(photo, options));
+
+    expect(first.imageData).toBe(second.imageData);
+    expect(first.cost).toBe(0);
+  });
+
+  it('should produce different output per background and style', async () => {
+    const photo = await createPhoto();
+
+    const office = await provider.generate(createRequest(photo, { background: 'office', style: 'professional' }));
+    const outdoor = await provider.generate(createRequest(photo, { background: 'outdoor', style: 'professional' }));
+    const creative = await provider.generate(createRequest(photo, { background: 'office', style: 'creative' }));
+
+    expect(office.imageData).not.toBe(outdoor.imageData);
+    expect(office.imageData).not.toBe(creative.imageData);
+  });
+
+  it('should reject an input photo it cannot decode as a non-retryable error', async () => {
+    const generation = provider.generate(
+      createRequest('bm90LWFuLWltYWdl', { background: 'studio', style: 'casual' })
+    );
+
+    await expect(generation).rejects.toThrow('Unable to process input image');
+    const error = await generation.catch(caught => caught);
+    expect(ErrorUtils.parseAIError(error)).toMatchObject({ code: 'INVALID_IMAGE', retryable: false });
+  });
+});
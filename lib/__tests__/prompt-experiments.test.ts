@@ -0,0 +1,61 @@
+import { PromptExperimentService } from '../prompt-experiments';
+
+const mockWeights = { basic: 1, detailed: 2, technical: 0, creative: 1 };
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getPromptExperimentConfig: () => ({ weights: mockWeights }),
+  },
+}));
+
+describe('PromptExperimentService', () => {
+  beforeEach(() => {
+    PromptExperimentService.clearAll();
+  });
+
+  it('should assign a session to the same variant every time', () => {
+    const first = PromptExperimentService.assign('session-0000000000000001');
+    const second = PromptExperimentService.assign('session-0000000000000001');
+
+    expect(second).toEqual(first);
+  });
+
+  it('should split sessions by weight and skip zero-weight variants', () => {
+    const counts: Record<string, number> = {};
+    for (let index = 0; index < 2000; index++) {
+      const { variant } = PromptExperimentService.assign(`session-${index}`);
+      counts[variant] = (counts[variant] || 0) + 1;
+    }
+
+    expect(counts.technical).toBeUndefined();
+    expect(counts.detailed / 2000).toBeCloseTo(0.5, 1);
+    expect(counts.basic / 2000).toBeCloseTo(0.25, 1);
+    expect(counts.creative / 2000).toBeCloseTo(0.25, 1);
+  });
+
+  it('should join previews with their conversions in the report', () => {
+    const assignment = { experimentId: 'prompt-variation', sessionId: 'session-1', variant: 'basic' as const };
+    const bought = PromptExperimentService.expose(assignment);
+
+    PromptExperimentService.recordPreview(bought, { success: true, candidates: 2, candidatesWithWarnings: 1 });
+    PromptExperimentService.recordPreview(
+      PromptExperimentService.expose(assignment),
+      { success: false, candidates: 0, candidatesWithWarnings: 0 }
+    );
+    expect(PromptExperimentService.recordConversion(bought)).toBe(true);
+    expect(PromptExperimentService.recordConversion(bought)).toBe(false);
+
+    const basic = PromptExperimentService.getReport().variants.find(variant => variant.variant === 'basic');
+
+    expect(basic).toEqual(expect.objectContaining({
+      weight: 0.25,
+      sessions: 1,
+      previews: 2,
+      successfulPreviews: 1,
+      successRate: 0.5,
+      warningRate: 0.5,
+      conversions: 1,
+      conversionRate: 1,
+    }));
+  });
+});
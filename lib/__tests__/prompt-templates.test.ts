@@ -0,0 +1,71 @@
+import { PromptTemplateFile, PromptTemplateRegistry } from '../prompts';
+
+// Changing a template changes its hash: bump its version, then update this list
+const PUBLISHED_TEMPLATES = {
+  professional: { version: 1, hash: '0419b309e870b659' },
+  executive: { version: 1, hash: '89704a70e4969f98' },
+  creative: { version: 1, hash: '41cf60eb0f6e6566' },
+  'portrait-basic': { version: 2, hash: 'e6386b18c1945f86' },
+  'portrait-detailed': { version: 1, hash: '393522761a2aa27b' },
+  'portrait-technical': { version: 2, hash: '39985018be4c87a3' },
+  'portrait-creative': { version: 2, hash: '8dbc908b640f7a54' },
+  refinement: { version: 1, hash: '470959c4f3e7719a' },
+};
+
+const createFile = (overrides: Partial<PromptTemplateFile> = {}): PromptTemplateFile => ({
+  id: 'test',
+  version: 1,
+  group: 'style',
+  name: 'Test',
+  description: 'Test template',
+  variables: ['style'],
+  template: ['Style: {style}'],
+  ...overrides,
+});
+
+describe('PromptTemplateRegistry', () => {
+  it('should not change a published template without a new version', () => {
+    const published = Object.fromEntries(
+      PromptTemplateRegistry.list().map(template => [template.id, { version: template.version, hash: template.hash }])
+    );
+
+    expect(published).toEqual(PUBLISHED_TEMPLATES);
+  });
+
+  it('should render variables and drop the blank lines of empty sections', () => {
+    const rendered = PromptTemplateRegistry.render('refinement', { instruction: 'darker suit' });
+
+    expect(rendered.text).toContain('with this change: darker suit');
+    expect(rendered.template).toEqual({ id: 'refinement', ...PUBLISHED_TEMPLATES.refinement });
+
+    const detailed = PromptTemplateRegistry.render('portrait-detailed', {
+      ...Object.fromEntries(PromptTemplateRegistry.get('portrait-detailed')!.variables.map(name => [name, name])),
+      sections: '',
+      use_case: '',
+    });
+
+    expect(detailed.text).not.toMatch(/\n{3,}/);
+    expect(detailed.text.endsWith('business-ready image.')).toBe(true);
+  });
+
+  it('should reject missing variables and unknown templates', () => {
+    expect(() => PromptTemplateRegistry.render('refinement', {})).toThrow('missing variables: instruction');
+    expect(() => PromptTemplateRegistry.render('invalid', {})).toThrow("Prompt template 'invalid' not found");
+  });
+
+  it('should reject template files whose variables do not match the text', () => {
+    expect(() => PromptTemplateRegistry.parse(createFile({ variables: [] })))
+      .toThrow('uses undeclared variables: style');
+    expect(() => PromptTemplateRegistry.parse(createFile({ variables: ['style', 'mood'] })))
+      .toThrow('declares unused variables: mood');
+    expect(() => PromptTemplateRegistry.parse(createFile({ version: 0 })))
+      .toThrow('positive integer version');
+  });
+
+  it('should hash the template content', () => {
+    const original = PromptTemplateRegistry.parse(createFile());
+
+    expect(PromptTemplateRegistry.parse(createFile()).hash).toBe(original.hash);
+    expect(PromptTemplateRegistry.parse(createFile({ template: ['Style: {style}.'] })).hash).not.toBe(original.hash);
+  });
+});
@@ -0,0 +1,81 @@
+import { generateKeyPairSync } from 'crypto';
+import sharp from 'sharp';
+import { ProvenanceService } from '../provenance';
+
+const signingKey = generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const mockConfig: { signingKey?: string } = { signingKey };
+
+jest.mock('../env-validation', () => ({
+  env: {
+    getProvenanceConfig: () => mockConfig,
+  },
+}));
+
+const createImage = async (format: 'jpeg' | 'png'): Promise<string> => {
+  const image = await sharp({
+    create: { width: 64, height: 64, channels: 3, background: '#336699' },
+  }).toFormat(format).toBuffer();
+
+  return image.toString('base64');
+};
+
+describe('ProvenanceService', () => {
+  beforeEach(() => {
+    mockConfig.signingKey = signingKey;
+  });
+
+  it.each(['jpeg', 'png'] as const)('should embed readable, valid metadata in %s images', async format => {
+    const embedded = ProvenanceService.embed(await createImage(format), {
+      generationId: 'gen_123',
+      kind: 'full',
+      model: 'gemini-2.5-flash-image',
+    });
+    expect(embedded.success).toBe(true);
+
+    const report = ProvenanceService.read(embedded.imageData!);
+
+    expect(report.valid).toBe(true);
+    expect(report.fields).toEqual(expect.objectContaining({
+      digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+      model: 'gemini-2.5-flash-image',
+      generationId: 'gen_123',
+    }));
+
+    const metadata = await sharp(Buffer.from(embedded.imageData!, 'base64')).metadata();
+    expect(metadata.xmp?.toString()).toContain('trainedAlgorithmicMedia');
+  });
+
+  it('should keep the data URL form and label without a manifest when no key is set', async () => {
+    mockConfig.signingKey = undefined;
+
+    const embedded = ProvenanceService.embed(`data:image/png;base64,${await createImage('png')}`, {
+      generationId: 'gen_123',
+      kind: 'preview',
+    });
+    const report = ProvenanceService.read(embedded.imageData!);
+
+    expect(embedded.imageData!.startsWith('data:image/png;base64,')).toBe(true);
+    expect(report.found).toBe(true);
+    expect(report.fields?.model).toBe('gemini-2.5-flash-image-preview');
+    expect(report.valid).toBe(false);
+    expect(report.errors).toContain('Image has no signed manifest');
+  });
+
+  it('should detect images modified after signing', async () => {
+    const embedded = ProvenanceService.embed(await createImage('jpeg'), { generationId: 'gen_123', kind: 'full' });
+    const tampered = Buffer.from(embedded.imageData!, 'base64');
+    tampered[tampered.length - 10] ^= 0xff;
+
+    const report = ProvenanceService.read(tampered.toString('base64'));
+
+    expect(report.valid).toBe(false);
+    expect(report.errors).toContain('Image has been modified since the manifest was signed');
+  });
+
+  it('should reject manifests signed with another key', async () => {
+    const embedded = ProvenanceService.embed(await createImage('png'), { generationId: 'gen_123', kind: 'full' });
+    mockConfig.signingKey = generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    expect(ProvenanceService.read(embedded.imageData!).errors).toContain('Manifest was signed with a different key');
+  });
+});
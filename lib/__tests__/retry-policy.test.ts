@@ -0,0 +1,86 @@
+import { RetryPolicy } from '../retry-policy';
+
+describe('RetryPolicy', () => {
+  const fastPolicy = (maxRetries: number, deadlineMs = 1000) =>
+    new RetryPolicy({ maxRetries, baseDelayMs: 1, maxDelayMs: 2, deadlineMs });
+
+  it('should retry retryable errors and record every attempt', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('Request timeout'))
+      .mockResolvedValueOnce('image');
+
+    const outcome = await fastPolicy(2).execute(operation);
+
+    expect(outcome.success).toBe(true);
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(outcome.attempts).toHaveLength(2);
+    expect(outcome.attempts[0]).toMatchObject({ attempt: 1, success: false, errorCode: 'TIMEOUT' });
+    expect(outcome.attempts[0].delayMs).toBeDefined();
+    expect(outcome.attempts[1]).toMatchObject({ attempt: 2, success: true });
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('Invalid API key'));
+
+    const outcome = await fastPolicy(3).execute(operation);
+
+    expect(outcome.success).toBe(false);
+    expect(operation).toHaveBeenCalledTimes(1);
+    if (!outcome.success) {
+      expect(outcome.errorCode).toBe('INVALID_API_KEY');
+    }
+  });
+
+  it('should stop after maxRetries', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('quota exceeded'));
+
+    const outcome = await fastPolicy(2).execute(operation);
+
+    expect(outcome.success).toBe(false);
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(outcome.attempts).toHaveLength(3);
+  });
+
+  it('should fail an attempt that runs past the deadline', async () => {
+    const operation = jest.fn(() => new Promise(resolve => setTimeout(resolve, 200)));
+
+    const outcome = await fastPolicy(5, 20).execute(operation);
+
+    expect(outcome.success).toBe(false);
+    if (!outcome.success) {
+      expect(outcome.errorCode).toBe('DEADLINE_EXCEEDED');
+    }
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort the running attempt at the deadline', async () => {
+    let signal: AbortSignal | undefined;
+    const operation = jest.fn((_attempt: number, attemptSignal: AbortSignal) => {
+      signal = attemptSignal;
+      return new Promise(resolve => setTimeout(resolve, 200));
+    });
+
+    await fastPolicy(0, 20).execute(operation);
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should stop retrying once the caller cancels', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn((_attempt: number, signal: AbortSignal) => {
+      setTimeout(() => controller.abort(), 5);
+      return new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Request timeout')));
+      });
+    });
+
+    const outcome = await new RetryPolicy({ maxRetries: 3, baseDelayMs: 1, signal: controller.signal })
+      .execute(operation);
+
+    expect(outcome.success).toBe(false);
+    if (!outcome.success) {
+      expect(outcome.errorCode).toBe('CANCELLED');
+    }
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
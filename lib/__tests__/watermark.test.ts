@@ -0,0 +1,98 @@
+import sharp from 'sharp';
+import { WatermarkService } from '../watermark';
+
+const createImage = async (width: number, height: number = width): Promise<string> => {
+  const image = await sharp({
+    create: { width, height, channels: 3, background: '#333333' },
+  }).png().toBuffer();
+
+  return image.toString('base64');
+};
+
+// Standard deviation of one 128px region; 0 on the untouched solid image.
+// stats() reads its input, so the region is extracted into its own image first.
+const cornerDeviation = async (dataUrl: string, left: number, top: number): Promise<number> => {
+  const region = await sharp(Buffer.from(dataUrl.split(',')[1], 'base64'))
+    .extract({ left, top, width: 128, height: 128 })
+    .png()
+    .toBuffer();
+  const { channels } = await sharp(region).stats();
+
+  return channels[0].stdev;
+};
+
+describe('WatermarkService', () => {
+  it('should tile the pattern across the whole image', async () => {
+    const result = await WatermarkService.addWatermark(await createImage(512), {
+      fontSize: 20,
+      pattern: true,
+      patternDensity: 4,
+    });
+
+    expect(result.success).toBe(true);
+    for (const [left, top] of [[0, 0], [384, 0], [0, 384], [384, 384]]) {
+      expect(await cornerDeviation(result.imageData!, left, top)).toBeGreaterThan(0);
+    }
+  });
+
+  it('should add a logo tile to the pattern', async () => {
+    const logo = await sharp({
+      create: { width: 40, height: 20, channels: 4, background: '#f5c000' },
+    }).png().toBuffer();
+
+    const result = await WatermarkService.addWatermark(await createImage(256), {
+      fontSize: 20,
+      pattern: true,
+      logo: logo.toString('base64'),
+      logoOpacity: 0.5,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should keep the label inside non-square images', async () => {
+    const result = await WatermarkService.addWatermark(await createImage(600, 400), {
+      pattern: false,
+      position: 'bottom-center',
+      padding: 20,
+    });
+
+    expect(result.success).toBe(true);
+    expect(await cornerDeviation(result.imageData!, 236, 272)).toBeGreaterThan(0);
+    expect(await cornerDeviation(result.imageData!, 236, 0)).toBe(0);
+  });
+
+  it('should escape markup in the label text', async () => {
+    const result = await WatermarkService.addWatermark(await createImage(512), {
+      text: 'A & B <preview> "quoted"',
+      pattern: false,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject logos that are not images', async () => {
+    const result = await WatermarkService.addWatermark(await createImage(512), {
+      logo: Buffer.from('not an image').toString('base64'),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Logo must be a PNG, JPEG or WebP image');
+  });
+
+  it('should reject out-of-range pattern options', () => {
+    const result = WatermarkService.validateOptions({
+      patternDensity: 20,
+      patternAngle: 120,
+      patternOpacity: 2,
+      logoOpacity: -1,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Pattern density must be between 1 and 12',
+      'Pattern angle must be between -90 and 90 degrees',
+      'Pattern opacity must be between 0 and 1',
+    ]));
+  });
+});
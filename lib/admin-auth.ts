@@ -0,0 +1,34 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { env } from './env-validation';
+import { ADMIN_CONFIG } from './constants';
+
+/**
+ * Admin Auth
+ * Guards internal endpoints such as experiment reports and watermark
+ * verification behind the ADMIN_API_SECRET header
+ */
+
+export class AdminAuth {
+  /**
+   * Check whether a request may call admin endpoints: the admin secret
+   * header, or any request in development when no secret is set
+   */
+  static isAdminRequest(request: NextRequest): boolean {
+    const secret = env.getAdminConfig().secret;
+    if (!secret) {
+      return process.env.NODE_ENV === 'development';
+    }
+
+    const provided = request.headers.get(ADMIN_CONFIG.HEADER);
+    if (!provided) {
+      return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+export default AdminAuth;
@@ -1,11 +1,23 @@
-import { GoogleGenAI } from '@google/genai';
 import { env } from './env-validation';
-import { GENERATION_CONFIG } from './constants';
+import { AI_MODEL_FALLBACKS, ERROR_MESSAGES, GENERATION_CONFIG, RETRY_CONFIG } from './constants';
+import {
+  createImageProvider,
+  ImageGenerationProvider,
+  ImageProviderName,
+  ProviderConversationTurn,
+  ProviderImage,
+} from './providers';
+import { GenerationAttempt, MetricsUtils, TokenUsage } from './ai-utils';
+import { PromptBuilder } from './prompt-builder';
+import { RetryPolicy } from './retry-policy';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
 import { UploadedImage, CustomizationOptions } from '@/types';
 
 /**
  * AI Service for Gemini 2.5 Flash Image (Nano Banana)
- * Handles image generation and processing using Google's Gemini API
+ * Handles image generation and processing through a pluggable provider
+ * (Gemini in production, a deterministic local mock offline). Each model sits
+ * behind a circuit breaker and AI_MODEL_FALLBACKS are tried in order.
  */
 
 export interface GenerationRequest {
@@ -13,6 +25,10 @@ export interface GenerationRequest {
   options: CustomizationOptions;
   size: 'preview' | 'full';
   prompt?: string;
+  referenceImages?: ProviderImage[]; // More photos of the same person, for likeness
+  backgroundImage?: ProviderImage; // Uploaded scene for the 'custom' background
+  history?: ProviderConversationTurn[]; // Earlier turns when refining a previous output
+  signal?: AbortSignal; // Cancels the generation, e.g. when its job times out
 }
 
 export interface GenerationResponse {
@@ -20,25 +36,42 @@ export interface GenerationResponse {
   imageUrl?: string;
   imageData?: string; // Base64 encoded image
   error?: string;
+  errorCode?: string; // From ErrorUtils.parseAIError, or CIRCUIT_OPEN
+  model?: string; // Model that produced the image
   cost?: number;
+  tokensUsed?: TokenUsage;
+  attempts?: GenerationAttempt[];
   generationTime?: number;
 }
 
 export interface AIServiceConfig {
   apiKey: string;
   model: string;
+  provider: ImageProviderName;
   maxRetries: number;
   baseUrl: string;
 }
 
 class AIService {
+  // Registry template used when a request carries no prompt
+  private static readonly DEFAULT_TEMPLATE = 'professional';
+
+  // Error codes about the request rather than the model: another model would
+  // fail the same way. Every other error, unrecognized ones included, counts
+  // toward the model's circuit breaker and triggers fallback
+  private static readonly REQUEST_ERROR_CODES = [
+    'SAFETY_BLOCKED',
+    'INVALID_IMAGE',
+    'INVALID_API_KEY',
+  ];
+
   private config: AIServiceConfig;
-  private retryCount = 0;
-  private genAI: GoogleGenAI;
+  private provider: ImageGenerationProvider;
+  private circuitBreakers = new Map<string, CircuitBreaker>();
 
   constructor() {
     this.config = env.getAIConfig();
-    this.genAI = new GoogleGenAI({
+    this.provider = createImageProvider(this.config.provider, {
       apiKey: this.config.apiKey,
     });
   }
@@ -50,34 +83,6 @@ class AIService {
     const startTime = Date.now();
     
     try {
-      // Reset retry count for new request
-      this.retryCount = 0;
-      
-      // Check if we're in development mode and should skip AI calls
-      if (env.get('DEV_MODE_SKIP_AI')) {
-        console.log('🚧 Development mode: Skipping Gemini API call, returning original image');
-        
-        // Get image base64 data
-        let imageBase64: string;
-        
-        // Check if image already has base64Data (from client)
-        if (request.image.base64Data && typeof request.image.base64Data === 'string') {
-          imageBase64 = request.image.base64Data;
-        } else {
-          // Fallback to converting the file (for backward compatibility)
-          imageBase64 = await this.convertImageToBase64(request.image.file);
-        }
-        
-        const generationTime = Date.now() - startTime;
-        
-        return {
-          success: true,
-          imageData: imageBase64, // Return original image
-          cost: 0, // No cost in dev mode
-          generationTime,
-        };
-      }
-      
       // Prepare the prompt for professional portrait generation
       const prompt = this.buildPrompt(request.options, request.prompt);
       
@@ -92,34 +97,100 @@ class AIService {
         imageBase64 = await this.convertImageToBase64(request.image.file);
       }
       
-      // Make API call to Gemini using the SDK
-      const response = await this.callGeminiAPI({
-        prompt,
-        image: imageBase64,
-        model: this.config.model,
-      });
-      
-      const generationTime = Date.now() - startTime;
-      const cost = this.calculateCost(request.size);
-      
+      // Try the configured model, then each fallback, within one overall deadline
+      const deadline = Date.now() + RETRY_CONFIG.DEADLINE_MS;
+      const attempts: GenerationAttempt[] = [];
+      let lastFailure: { error: Error; errorCode: string } | null = null;
+
+      for (const model of this.getModelChain()) {
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0 || request.signal?.aborted) {
+          break;
+        }
+
+        const breaker = this.getCircuitBreaker(model);
+        if (!breaker.allowRequest()) {
+          console.warn(`Skipping ${model}: circuit ${breaker.getState()}`);
+          continue;
+        }
+
+        // Retry state is per request
+        const retryPolicy = new RetryPolicy({
+          maxRetries: this.config.maxRetries,
+          deadlineMs: remainingMs,
+          signal: request.signal,
+        });
+        const outcome = await retryPolicy.execute((_attempt, signal) => this.provider.generate({
+          prompt,
+          image: imageBase64,
+          mimeType: request.image.type || 'image/jpeg',
+          model,
+          options: request.options,
+          size: request.size,
+          referenceImages: request.referenceImages,
+          backgroundImage: request.backgroundImage,
+          history: request.history,
+          signal,
+        }));
+        attempts.push(...outcome.attempts.map(attempt => ({ ...attempt, model })));
+
+        if (outcome.success) {
+          breaker.recordSuccess();
+
+          const response = outcome.value;
+          const generationTime = Date.now() - startTime;
+          const cost = response.cost ?? this.calculateCost(request.size, model, response.usage);
+
+          return {
+            success: true,
+            imageData: response.imageData,
+            model,
+            cost,
+            tokensUsed: response.usage,
+            attempts,
+            generationTime,
+          };
+        }
+
+        console.error(`AI Service Error (${model}):`, outcome.error);
+        lastFailure = outcome;
+
+        // A cancelled call says nothing about the model's health
+        if (outcome.errorCode === 'CANCELLED') {
+          breaker.release();
+          break;
+        }
+
+        // Safety blocks and bad keys mean the service answered, and one bad
+        // upload must not open the circuit
+        if (AIService.REQUEST_ERROR_CODES.includes(outcome.errorCode)) {
+          breaker.recordSuccess();
+          break;
+        }
+
+        breaker.recordFailure();
+      }
+
+      if (!lastFailure) {
+        // Every circuit is open: fail fast
+        return {
+          success: false,
+          error: ERROR_MESSAGES.SERVICE_UNAVAILABLE,
+          errorCode: 'CIRCUIT_OPEN',
+          attempts,
+        };
+      }
+
       return {
-        success: true,
-        imageData: response.imageData,
-        cost,
-        generationTime,
+        success: false,
+        error: lastFailure.error.message,
+        errorCode: lastFailure.errorCode,
+        attempts,
       };
       
     } catch (error) {
       console.error('AI Service Error:', error);
       
-      // Retry logic
-      if (this.retryCount < this.config.maxRetries) {
-        this.retryCount++;
-        console.log(`Retrying generation (attempt ${this.retryCount}/${this.config.maxRetries})`);
-        await this.delay(1000 * this.retryCount); // Exponential backoff
-        return this.generatePortrait(request);
-      }
-      
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to generate portrait',
@@ -128,46 +199,14 @@ class AIService {
   }
 
   /**
-   * Build a detailed prompt for professional portrait generation
+   * Render the default professional prompt when the caller did not supply one
    */
   private buildPrompt(options: CustomizationOptions, customPrompt?: string): string {
     if (customPrompt) {
       return customPrompt;
     }
 
-    const background = options.background || 'office';
-    const style = options.style || 'professional';
-    
-    const backgroundDescriptions = {
-      office: 'professional office setting with modern furniture and clean lighting',
-      studio: 'clean, minimalist studio background with soft lighting',
-      outdoor: 'outdoor professional setting with natural lighting',
-      conference: 'conference room with modern corporate environment',
-    };
-
-    const styleDescriptions = {
-      professional: 'professional business attire, confident expression, clean and polished look',
-      casual: 'smart casual attire, approachable expression, modern and friendly',
-      executive: 'executive-level professional attire, authoritative presence, sophisticated styling',
-      creative: 'creative professional attire, artistic expression, innovative and dynamic',
-    };
-
-    return `Transform this photo into a high-quality professional portrait. 
-    
-    Requirements:
-    - ${styleDescriptions[style]}
-    - Background: ${backgroundDescriptions[background]}
-    - High resolution, sharp details, professional lighting
-    - Maintain the person's facial features and identity
-    - Remove any distracting elements from the original background
-    - Ensure the portrait looks natural and professional
-    - Use professional color grading and retouching
-    - The final image should be suitable for business cards, LinkedIn profiles, and professional use
-    
-    Style: ${style}
-    Background: ${background}
-    
-    Generate a professional portrait that maintains the person's likeness while creating a polished, business-ready image.`;
+    return PromptBuilder.renderTemplate(AIService.DEFAULT_TEMPLATE, options).text;
   }
 
   /**
@@ -219,81 +258,43 @@ class AIService {
   }
 
   /**
-   * Call Gemini 2.5 Flash Image API using the official SDK
+   * Get the configured model followed by its fallbacks, without duplicates
    */
-  private async callGeminiAPI(params: {
-    prompt: string;
-    image: string;
-    model: string;
-  }): Promise<{ imageData: string }> {
-    try {
-      // Prepare the contents array for image editing
-      const contents = [
-        { text: params.prompt },
-        {
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: params.image,
-          },
-        },
-      ];
-
-      // Generate content using the SDK
-      const response = await this.genAI.models.generateContent({
-        model: params.model,
-        contents: contents,
-      });
-
-      // Extract the generated image from the response
-      if (response.candidates && response.candidates[0] && response.candidates[0].content) {
-        const content = response.candidates[0].content;
-        
-        if (content.parts) {
-          // Look for image data in the response parts
-          const imagePart = content.parts.find((part: { inlineData?: { data?: string } }) => 
-            part.inlineData
-          );
-          
-          if (imagePart) {
-            const imageData = imagePart.inlineData?.data;
-            if (imageData) {
-              console.log('Image generated successfully, data length:', imageData.length);
-              return {
-                imageData: imageData,
-              };
-            }
-          }
-        }
-      }
-
-      throw new Error('No image generated in response');
-    } catch (error) {
-      console.error('Gemini SDK Error:', error);
-      throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private getModelChain(): string[] {
+    return [this.config.model, ...AI_MODEL_FALLBACKS.filter(model => model !== this.config.model)];
   }
 
   /**
-   * Calculate the cost of generation based on size
+   * Get (or create) the circuit breaker for a model
    */
-  private calculateCost(size: 'preview' | 'full'): number {
-    return size === 'preview' 
-      ? GENERATION_CONFIG.PREVIEW_COST 
-      : GENERATION_CONFIG.FULL_COST;
+  private getCircuitBreaker(model: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(model);
+    if (!breaker) {
+      breaker = new CircuitBreaker(model);
+      this.circuitBreakers.set(model, breaker);
+    }
+    return breaker;
   }
 
   /**
-   * Delay utility for retry logic
+   * Calculate the cost of generation from token usage, falling back to the
+   * flat per-size cost when usage is missing or the model is not priced
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private calculateCost(size: 'preview' | 'full', model: string, tokensUsed?: TokenUsage): number {
+    const tokenCost = tokensUsed
+      ? MetricsUtils.calculateTokenCost(model, tokensUsed)
+      : null;
+
+    return tokenCost ?? (size === 'preview' 
+      ? GENERATION_CONFIG.PREVIEW_COST 
+      : GENERATION_CONFIG.FULL_COST);
   }
 
   /**
    * Validate the AI service configuration
    */
   validateConfig(): boolean {
-    return !!(this.config.apiKey && this.config.model && this.config.baseUrl);
+    return !!(this.config.model && this.config.baseUrl && this.provider.isConfigured());
   }
 
   /**
@@ -302,6 +303,11 @@ class AIService {
   getServiceInfo() {
     return {
       model: this.config.model,
+      provider: this.provider.name,
+      fallbackModels: this.getModelChain().slice(1),
+      circuits: Object.fromEntries(
+        this.getModelChain().map(model => [model, this.getCircuitBreaker(model).getState()])
+      ) as Record<string, CircuitState>,
       maxRetries: this.config.maxRetries,
       baseUrl: this.config.baseUrl,
       isConfigured: this.validateConfig(),
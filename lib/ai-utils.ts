@@ -1,19 +1,15 @@
 import { UploadedImage, CustomizationOptions } from '@/types';
-import { GENERATION_CONFIG } from './constants';
+import { AI_MODEL_PRICING, GENERATION_CONFIG } from './constants';
+import { PromptBuilder } from './prompt-builder';
+import { PromptTemplate, PromptTemplateRef, PromptTemplateRegistry } from './prompts';
+
+export type { PromptTemplate };
 
 /**
  * AI Service Integration Utilities
  * Provides helper functions for AI service operations
  */
 
-export interface PromptTemplate {
-  id: string;
-  name: string;
-  description: string;
-  template: string;
-  variables: string[];
-}
-
 export interface ImageProcessingOptions {
   quality: number;
   format: 'jpeg' | 'png' | 'webp';
@@ -27,100 +23,54 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+export interface TokenUsage {
+  promptTokens: number; // Text prompt input
+  imageTokens: number; // Input photo
+  outputTokens: number; // Everything generated, including thinking
+  outputImageTokens: number; // Portion of outputTokens billed at the image-output rate
+  totalTokens: number;
+}
+
+export interface GenerationAttempt {
+  attempt: number; // 1-based, per model
+  model?: string;
+  startTime: number;
+  duration: number;
+  success: boolean;
+  errorCode?: string; // From ErrorUtils.parseAIError
+  error?: string;
+  retryable?: boolean;
+  delayMs?: number; // Backoff waited before the next attempt
+}
+
 export interface AIGenerationMetrics {
   startTime: number;
   endTime: number;
   duration: number;
-  tokensUsed?: number;
+  tokensUsed?: TokenUsage;
+  attempts?: GenerationAttempt[];
   cost: number;
   model: string;
   size: 'preview' | 'full';
+  promptTemplate?: PromptTemplateRef; // Template that produced the prompt, if any
 }
 
 /**
  * Prompt Engineering Utilities
  */
 export class PromptUtils {
-  private static readonly PROMPT_TEMPLATES: PromptTemplate[] = [
-    {
-      id: 'professional',
-      name: 'Professional Portrait',
-      description: 'Clean, business-ready professional portrait',
-      template: `Transform this photo into a high-quality professional portrait.
-
-Requirements:
-- {style_description}
-- Background: {background_description}
-- High resolution, sharp details, professional lighting
-- Maintain the person's facial features and identity
-- Remove any distracting elements from the original background
-- Ensure the portrait looks natural and professional
-- Use professional color grading and retouching
-- The final image should be suitable for business cards, LinkedIn profiles, and professional use
-
-Style: {style}
-Background: {background}
-
-Generate a professional portrait that maintains the person's likeness while creating a polished, business-ready image.`,
-      variables: ['style', 'background', 'style_description', 'background_description'],
-    },
-    {
-      id: 'executive',
-      name: 'Executive Portrait',
-      description: 'High-level executive portrait with authority',
-      template: `Create an executive-level professional portrait from this photo.
-
-Requirements:
-- {style_description}
-- Background: {background_description}
-- Convey authority, confidence, and leadership
-- High-end professional styling
-- Sharp, detailed image with executive presence
-- Maintain facial features while enhancing professional appearance
-- Remove background distractions
-- Use sophisticated color grading
-
-Style: {style}
-Background: {background}
-
-Generate an executive portrait that projects authority and professionalism.`,
-      variables: ['style', 'background', 'style_description', 'background_description'],
-    },
-    {
-      id: 'creative',
-      name: 'Creative Professional',
-      description: 'Modern, creative professional portrait',
-      template: `Transform this into a creative professional portrait.
-
-Requirements:
-- {style_description}
-- Background: {background_description}
-- Modern, innovative professional styling
-- Creative but appropriate for business use
-- Maintain personality while ensuring professionalism
-- High-quality, detailed image
-- Contemporary color grading and lighting
-
-Style: {style}
-Background: {background}
-
-Generate a creative professional portrait that balances innovation with business appropriateness.`,
-      variables: ['style', 'background', 'style_description', 'background_description'],
-    },
-  ];
-
   /**
-   * Get available prompt templates
+   * Get the standalone style prompt templates
    */
   static getPromptTemplates(): PromptTemplate[] {
-    return [...this.PROMPT_TEMPLATES];
+    return PromptTemplateRegistry.list('style');
   }
 
   /**
    * Get a specific prompt template by ID
    */
   static getPromptTemplate(id: string): PromptTemplate | null {
-    return this.PROMPT_TEMPLATES.find(template => template.id === id) || null;
+    return PromptTemplateRegistry.get(id);
   }
 
   /**
@@ -135,49 +85,18 @@ Generate a creative professional portrait that balances innovation with business
       return customPrompt;
     }
 
-    const template = this.getPromptTemplate(templateId);
-    if (!template) {
-      throw new Error(`Prompt template '${templateId}' not found`);
-    }
-
-    const variables = this.getPromptVariables(options);
-    return this.interpolateTemplate(template.template, variables);
-  }
-
-  /**
-   * Get prompt variables from customization options
-   */
-  private static getPromptVariables(options: CustomizationOptions): Record<string, string> {
-    const styleDescriptions = {
-      professional: 'professional business attire, confident expression, clean and polished look',
-      casual: 'smart casual attire, approachable expression, modern and friendly',
-      executive: 'executive-level professional attire, authoritative presence, sophisticated styling',
-      creative: 'creative professional attire, artistic expression, innovative and dynamic',
-    };
-
-    const backgroundDescriptions = {
-      office: 'professional office setting with modern furniture and clean lighting',
-      studio: 'clean, minimalist studio background with soft lighting',
-      outdoor: 'outdoor professional setting with natural lighting',
-      conference: 'conference room with modern corporate environment',
-    };
-
-    return {
-      style: options.style || 'professional',
-      background: options.background || 'office',
-      style_description: styleDescriptions[options.style || 'professional'],
-      background_description: backgroundDescriptions[options.background || 'office'],
-    };
+    return PromptBuilder.renderTemplate(templateId, options).text;
   }
 
-  /**
-   * Interpolate template with variables
-   */
-  private static interpolateTemplate(template: string, variables: Record<string, string>): string {
-    return template.replace(/\{(\w+)\}/g, (match, key) => {
-      return variables[key] || match;
-    });
-  }
+  // Keywords rejected by validatePrompt, grouped by content category
+  private static readonly DISALLOWED_CONTENT: Record<string, string[]> = {
+    sexual: ['nude', 'naked', 'nudity', 'sexual', 'sexy', 'explicit', 'nsfw', 'topless', 'lingerie', 'erotic'],
+    violence: ['violence', 'violent', 'weapon', 'gun', 'knife', 'blood', 'gore', 'injury'],
+    drugs: ['drug', 'cocaine', 'heroin', 'marijuana'],
+    hate: ['nazi', 'swastika', 'racist'],
+    impersonation: ['deepfake', 'face swap', 'celebrity', 'politician'],
+    other: ['illegal', 'inappropriate'],
+  };
 
   /**
    * Validate prompt content for safety and appropriateness
@@ -186,16 +105,12 @@ Generate a creative professional portrait that balances innovation with business
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Check for inappropriate content
-    const inappropriateKeywords = [
-      'nude', 'naked', 'sexual', 'explicit', 'inappropriate',
-      'violence', 'weapon', 'drug', 'illegal'
-    ];
-
-    const lowerPrompt = prompt.toLowerCase();
-    for (const keyword of inappropriateKeywords) {
-      if (lowerPrompt.includes(keyword)) {
-        errors.push(`Inappropriate keyword detected: ${keyword}`);
+    // Check for disallowed content, matching whole words (and plurals) only
+    for (const [category, keywords] of Object.entries(this.DISALLOWED_CONTENT)) {
+      for (const keyword of keywords) {
+        if (new RegExp(`\\b${keyword}(s|es)?\\b`, 'i').test(prompt)) {
+          errors.push(`Disallowed content (${category}): ${keyword}`);
+        }
       }
     }
 
@@ -418,10 +333,14 @@ export class ValidationUtils {
  */
 export class ErrorUtils {
   /**
-   * Parse AI service errors
+   * Parse AI service errors. Matching is case-insensitive since providers
+   * word the same failure differently ("Deadline expired", "Gateway Timeout").
    */
   static parseAIError(error: Error | { message?: string; code?: string }): { code: string; message: string; retryable: boolean } {
-    if (error.message?.includes('API key')) {
+    const text = error.message || '';
+
+    // Includes Google's API_KEY_SERVICE_BLOCKED, which is not a content block
+    if (/API[ _]key/i.test(text)) {
       return {
         code: 'INVALID_API_KEY',
         message: 'Invalid or missing API key',
@@ -429,7 +348,42 @@ export class ErrorUtils {
       };
     }
 
-    if (error.message?.includes('quota')) {
+    // Only the provider's own block message, see GeminiProvider
+    if (/Request blocked by safety filters/i.test(text)) {
+      return {
+        code: 'SAFETY_BLOCKED',
+        message: 'Request was blocked by content safety filters',
+        retryable: false,
+      };
+    }
+
+    // The provider could not read an input photo; no model will do better
+    if (/unable to process input image/i.test(text)) {
+      return {
+        code: 'INVALID_IMAGE',
+        message: 'Input image could not be processed',
+        retryable: false,
+      };
+    }
+
+    if (/cancelled/i.test(text)) {
+      return {
+        code: 'CANCELLED',
+        message: 'Generation was cancelled',
+        retryable: false,
+      };
+    }
+
+    // Our own overall deadline, see RetryPolicy; a provider's deadline is a timeout
+    if (/generation deadline exceeded/i.test(text)) {
+      return {
+        code: 'DEADLINE_EXCEEDED',
+        message: 'Generation deadline exceeded',
+        retryable: false,
+      };
+    }
+
+    if (/quota|resource_exhausted/i.test(text)) {
       return {
         code: 'QUOTA_EXCEEDED',
         message: 'API quota exceeded',
@@ -437,7 +391,7 @@ export class ErrorUtils {
       };
     }
 
-    if (error.message?.includes('timeout')) {
+    if (/timeout|timed out|deadline expired|deadline_exceeded|\b504\b/i.test(text)) {
       return {
         code: 'TIMEOUT',
         message: 'Request timed out',
@@ -445,7 +399,7 @@ export class ErrorUtils {
       };
     }
 
-    if (error.message?.includes('rate limit')) {
+    if (/rate limit|too many requests|\b429\b/i.test(text)) {
       return {
         code: 'RATE_LIMITED',
         message: 'Rate limit exceeded',
@@ -453,6 +407,14 @@ export class ErrorUtils {
       };
     }
 
+    if (/overloaded|unavailable|bad gateway|internal error|\b50[0-3]\b/i.test(text)) {
+      return {
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'AI service temporarily unavailable',
+        retryable: true,
+      };
+    }
+
     return {
       code: 'UNKNOWN_ERROR',
       message: error.message || 'Unknown error occurred',
@@ -479,6 +441,10 @@ export class ErrorUtils {
       QUOTA_EXCEEDED: 'The AI service is temporarily unavailable. Please try again in a few minutes.',
       TIMEOUT: 'The request took too long to process. Please try again.',
       RATE_LIMITED: 'Too many requests. Please wait a moment and try again.',
+      SAFETY_BLOCKED: 'Your photo could not be processed. Please try a different photo.',
+      INVALID_IMAGE: 'Your photo could not be read. Please upload a different photo.',
+      DEADLINE_EXCEEDED: 'The request took too long to process. Please try again.',
+      SERVICE_UNAVAILABLE: 'The AI service is temporarily unavailable. Please try again in a few minutes.',
       UNKNOWN_ERROR: 'Something went wrong while generating your portrait. Please try again.',
     };
 
@@ -490,30 +456,69 @@ export class ErrorUtils {
  * Metrics and Analytics Utilities
  */
 export class MetricsUtils {
+  // Costs are computed in integer nano-dollars so per-generation and total costs stay exact
+  private static readonly NANOS_PER_DOLLAR = 1_000_000_000;
+
   /**
-   * Create generation metrics
+   * Create generation metrics. Cost comes from `details.cost` when the provider
+   * reported one, otherwise from token usage, otherwise the flat per-size cost.
    */
   static createMetrics(
     startTime: number,
     endTime: number,
     model: string,
-    size: 'preview' | 'full'
+    size: 'preview' | 'full',
+    details: {
+      tokensUsed?: TokenUsage;
+      cost?: number;
+      attempts?: GenerationAttempt[];
+      promptTemplate?: PromptTemplateRef;
+    } = {}
   ): AIGenerationMetrics {
     const duration = endTime - startTime;
-    const cost = size === 'preview' 
+    const tokenCost = details.tokensUsed
+      ? this.calculateTokenCost(model, details.tokensUsed)
+      : null;
+    const cost = details.cost ?? tokenCost ?? (size === 'preview'
       ? GENERATION_CONFIG.PREVIEW_COST 
-      : GENERATION_CONFIG.FULL_COST;
+      : GENERATION_CONFIG.FULL_COST);
 
     return {
       startTime,
       endTime,
       duration,
+      tokensUsed: details.tokensUsed,
+      attempts: details.attempts,
       cost,
       model,
       size,
+      promptTemplate: details.promptTemplate,
     };
   }
 
+  /**
+   * Calculate the exact cost of a generation from its token usage,
+   * or null if the model has no entry in AI_MODEL_PRICING
+   */
+  static calculateTokenCost(model: string, tokens: TokenUsage): number | null {
+    const pricing = AI_MODEL_PRICING[model];
+    if (!pricing) {
+      console.warn(`No token pricing for model ${model}, falling back to flat cost`);
+      return null;
+    }
+
+    // USD per 1M tokens is exactly 1,000x the nano-dollars per token
+    const nanosPerToken = (usdPerMillion: number) => Math.round(usdPerMillion * 1000);
+    const outputTextTokens = Math.max(0, tokens.outputTokens - tokens.outputImageTokens);
+
+    const nanos =
+      (tokens.promptTokens + tokens.imageTokens) * nanosPerToken(pricing.INPUT_PER_MILLION) +
+      outputTextTokens * nanosPerToken(pricing.OUTPUT_TEXT_PER_MILLION) +
+      tokens.outputImageTokens * nanosPerToken(pricing.OUTPUT_IMAGE_PER_MILLION);
+
+    return nanos / this.NANOS_PER_DOLLAR;
+  }
+
   /**
    * Log generation metrics
    */
@@ -523,6 +528,11 @@ export class MetricsUtils {
       cost: `$${metrics.cost}`,
       model: metrics.model,
       size: metrics.size,
+      tokens: metrics.tokensUsed,
+      attempts: metrics.attempts?.length,
+      promptTemplate: metrics.promptTemplate
+        ? `${metrics.promptTemplate.id}@v${metrics.promptTemplate.version}`
+        : undefined,
     });
   }
 
@@ -530,7 +540,11 @@ export class MetricsUtils {
    * Calculate cost for multiple generations
    */
   static calculateTotalCost(generations: AIGenerationMetrics[]): number {
-    return generations.reduce((total, gen) => total + gen.cost, 0);
+    const totalNanos = generations.reduce(
+      (total, gen) => total + Math.round(gen.cost * this.NANOS_PER_DOLLAR),
+      0
+    );
+    return totalNanos / this.NANOS_PER_DOLLAR;
   }
 }
 
@@ -0,0 +1,73 @@
+import { PREPROCESSING_CONFIG } from './constants';
+import { Dimensions } from './output-geometry';
+
+/**
+ * Browser Image Utilities
+ * Prepares uploads to be kept in sessionStorage between pages. Browsers cap
+ * sessionStorage at about 5 MB per site, so photos are shrunk to the size the
+ * server sends to the model and re-encoded as JPEG before they are stored.
+ */
+
+export interface StorableImage {
+  base64Data: string; // Without a data URL prefix
+  type: string;
+  size: number; // Bytes of the re-encoded image
+  dimensions: Dimensions;
+}
+
+export class BrowserImageUtils {
+  /**
+   * Shrink an image file to PREPROCESSING_CONFIG.MAX_DIMENSION on the long
+   * edge, never enlarging it, and encode it as base64 JPEG
+   */
+  static async toStorable(file: File): Promise<StorableImage> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, PREPROCESSING_CONFIG.MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const dimensions = {
+      width: Math.round(bitmap.width * scale),
+      height: Math.round(bitmap.height * scale),
+    };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = dimensions.width;
+    canvas.height = dimensions.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      throw new Error('Canvas is not available in this browser');
+    }
+    context.drawImage(bitmap, 0, 0, dimensions.width, dimensions.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, 'image/jpeg', PREPROCESSING_CONFIG.BROWSER_QUALITY)
+    );
+    if (!blob) {
+      throw new Error('Failed to encode image');
+    }
+
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+
+    return {
+      base64Data: dataUrl.split(',')[1],
+      type: 'image/jpeg',
+      size: blob.size,
+      dimensions,
+    };
+  }
+
+  /**
+   * Check whether an error means sessionStorage is full
+   */
+  static isQuotaExceeded(error: unknown): boolean {
+    return error instanceof DOMException
+      && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+  }
+}
+
+export default BrowserImageUtils;
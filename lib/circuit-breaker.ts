@@ -0,0 +1,109 @@
+import { CIRCUIT_BREAKER_CONFIG } from './constants';
+
+/**
+ * Circuit Breaker
+ * Stops calling a degraded model after repeated failures so requests fail
+ * fast, then lets a limited number of probes through to test recovery
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+  halfOpenMaxProbes?: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probesInFlight = 0;
+
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxProbes: number;
+
+  constructor(
+    readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? CIRCUIT_BREAKER_CONFIG.RESET_TIMEOUT_MS;
+    this.halfOpenMaxProbes = options.halfOpenMaxProbes ?? CIRCUIT_BREAKER_CONFIG.HALF_OPEN_MAX_PROBES;
+  }
+
+  /**
+   * Check whether a request may go through. Every allowed request must be
+   * followed by recordSuccess(), recordFailure() or release().
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.probesInFlight = 0;
+      console.log(`Circuit ${this.name} half-open: probing`);
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && this.probesInFlight < this.halfOpenMaxProbes) {
+      this.probesInFlight++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a call that reached a healthy service
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit ${this.name} closed`);
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probesInFlight = 0;
+  }
+
+  /**
+   * Record a service failure; opens the circuit at the threshold or when a probe fails
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit ${this.name} open after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.probesInFlight = 0;
+    }
+  }
+
+  /**
+   * Give back an allowed request that says nothing about the service's
+   * health, such as a cancelled one, freeing its probe slot
+   */
+  release(): void {
+    if (this.state === 'half-open' && this.probesInFlight > 0) {
+      this.probesInFlight--;
+    }
+  }
+
+  /**
+   * Get the current state, reporting open circuits past the reset timeout as half-open
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+}
+
+export default CircuitBreaker;
@@ -10,20 +10,120 @@ export const UPLOAD_CONFIG = {
   MAX_SIZE: 10 * 1024 * 1024, // 10MB
   MIN_DIMENSIONS: 512,
   ACCEPTED_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
-  MAX_FILES: 1,
+  MAX_FILES: 5, // Photos of the same person; the first is the one transformed
+} as const;
+
+export const PREPROCESSING_CONFIG = {
+  MAX_DIMENSION: 1536, // Longest edge sent to the model
+  QUALITY: 92, // JPEG/WebP re-encode quality
+  BROWSER_QUALITY: 0.85, // JPEG quality of photos kept in sessionStorage between pages
 } as const;
 
 export const GENERATION_CONFIG = {
   PREVIEW_SIZE: 512,
-  FULL_SIZE: 2048,
+  FULL_SIZE: 2048, // Long edge cap for purchases; the model's ~1024px output is delivered as is, never upscaled
   PREVIEW_COST: 0.039, // Actual Gemini API cost: 1,290 tokens × $30/1M tokens
   FULL_COST: 0.039,    // Same cost for both preview and full (token-based pricing)
   MAX_ATTEMPTS: 3,
-  TIMEOUT_MS: 300000, // 5 minutes
+  PREVIEW_CANDIDATES: 3, // Candidates requested by the preview page
+  MAX_CANDIDATES: 4,
+  CANDIDATE_CONCURRENCY: 2, // Parallel model calls per preview request
+} as const;
+
+export const RETRY_CONFIG = {
+  BASE_DELAY_MS: 1000, // First backoff, doubled per attempt
+  MAX_DELAY_MS: 8000,
+  DEADLINE_MS: 120000, // 2 minutes across all attempts; the refine route's maxDuration (150s in vercel.json) adds room for post-processing
+} as const;
+
+export const JOB_CONFIG = {
+  EXPIRY_MS: 60 * 60 * 1000, // 1 hour
+  POLL_INTERVAL_MS: 2000, // 2 seconds
+  HEARTBEAT_MS: 15000, // 15 seconds
+  TIMEOUT_MS: 270000, // 4.5 minutes, below the jobs and sync preview routes' maxDuration (300s in vercel.json)
+} as const;
+
+export const MODERATION_CONFIG = {
+  MODEL: 'gemini-2.5-flash', // Text model used by the Gemini classifier
+  SAMPLE_SIZE: 64, // Rule-based classifier samples a 64x64 thumbnail
+  SKIN_RATIO_REVIEW: 0.6, // Share of skin-tone pixels that triggers a review
+  LOG_LIMIT: 500, // Most recent review/deny decisions kept in the moderation log
+} as const;
+
+export const PROMPT_POLICY_CONFIG = {
+  MAX_REQUIREMENTS: 5, // Entries in options.additionalRequirements
+  MAX_REQUIREMENT_LENGTH: 200, // Characters per requirement
+  MAX_PROMPT_LENGTH: 4000, // Characters in the final prompt, including trusted overrides
+  OVERRIDE_HEADER: 'x-prompt-override-secret', // Must match PROMPT_OVERRIDE_SECRET to send a raw prompt
+} as const;
+
+export const REFINE_CONFIG = {
+  MAX_INSTRUCTION_LENGTH: 200, // Characters per refinement instruction
+  MAX_VERSIONS: 10, // Versions in one refinement chain, including the original
+  HISTORY_IMAGES: 2, // Most recent versions replayed as images in the edit conversation
+} as const;
+
+export const PROMPT_EXPERIMENT_CONFIG = {
+  ID: 'prompt-variation', // Change to start a new experiment with fresh assignments
+  DEFAULT_WEIGHTS: { basic: 0, detailed: 1, technical: 0, creative: 0 }, // Overridden by PROMPT_EXPERIMENT_WEIGHTS
+  SESSION_COOKIE: 'pb_session',
+  SESSION_MAX_AGE_S: 30 * 24 * 60 * 60, // 30 days
+  LOG_LIMIT: 5000, // Most recent previews kept for the report
+} as const;
+
+export const ADMIN_CONFIG = {
+  HEADER: 'x-admin-secret', // Must match ADMIN_API_SECRET to call admin endpoints
+} as const;
+
+export const FORENSIC_WATERMARK_CONFIG = {
+  GRID_SIZES: [256, 128, 64, 50], // Cells per side, finest first; 50 gives 8px cells on a 400px social export
+  MIN_CELL_SIZE: 8, // Smallest cell side in pixels, one codec block; the finest grid with cells this large is used
+  STRENGTH: 2.5, // Brightness shift per cell in 8-bit levels, below what the eye notices
+  RESIDUAL_LIMIT: 2, // Cap on each cell's residual when reading, so edges in the picture do not drown the mark
+  FLIP_BITS: 12, // Least certain bits tried flipped when the tag does not match; 4096 extra tag checks per grid
+  ORDER_LIMIT: 10000, // Most recent marked purchases kept for verification
+} as const;
+
+export const PROVENANCE_CONFIG = {
+  DIGITAL_SOURCE_TYPE: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+  NAMESPACE: 'https://portraitbanana.com/ns/provenance/1.0/', // XMP namespace for our own fields
+  MANIFEST_VERSION: 1,
+} as const;
+
+export const EXPORT_CONFIG = {
+  FORMATS: [
+    { id: 'jpeg', name: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', description: 'Works everywhere' },
+    { id: 'png', name: 'PNG', mimeType: 'image/png', extension: 'png', description: 'Lossless, larger files' },
+    { id: 'webp', name: 'WebP', mimeType: 'image/webp', extension: 'webp', description: 'Smaller files for the web' },
+    { id: 'avif', name: 'AVIF', mimeType: 'image/avif', extension: 'avif', description: 'Smallest files, newer apps only' },
+  ],
+  PRESETS: [
+    { id: 'social', name: 'Social', description: '400x400 for LinkedIn, Slack and email signatures', longEdge: 400, square: true, dpi: 72 },
+    { id: '1024', name: '1024px', description: 'Websites and presentations', longEdge: 1024, square: false, dpi: 72 },
+    { id: '2048', name: 'Full size', description: 'The full generated resolution, up to 2048px', longEdge: 2048, square: false, dpi: 72 },
+    { id: 'print', name: 'Print', description: 'Full resolution tagged 300 DPI; a 1024px portrait prints about 3.4 in on the long edge', longEdge: 2048, square: false, dpi: 300 },
+  ],
+  QUALITY_LEVELS: {
+    high: { jpeg: 95, webp: 92, avif: 75 },
+    balanced: { jpeg: 85, webp: 80, avif: 60 },
+    small: { jpeg: 72, webp: 65, avif: 45 },
+  }, // PNG is lossless and ignores the level
+  DEFAULTS: { format: 'jpeg', preset: '2048', quality: 'high' },
+  AVIF_EFFORT: 2, // Encoder effort 0-9; the default 4 takes about 10x longer for little gain
+} as const;
+
+export const WARDROBE_CONFIG = {
+  MAX_ACCESSORIES: 3, // Accessories per portrait, to keep the prompt focused
+} as const;
+
+export const CACHE_CONFIG = {
+  TTL_MS: 60 * 60 * 1000, // 1 hour, well inside SESSION_CONFIG.EXPIRY_MS so cached generation IDs stay valid
+  MAX_ENTRIES: 100, // Oldest entries are evicted first
 } as const;
 
 export const RATE_LIMIT_CONFIG = {
   MAX_ATTEMPTS_PER_IP: 3,
+  MAX_SCREENINGS_PER_IP: 10, // Upload screenings per window, each up to 6 classifier calls
   WINDOW_MS: 24 * 60 * 60 * 1000, // 24 hours
   BLOCK_DURATION_MS: 60 * 60 * 1000, // 1 hour
 } as const;
@@ -34,6 +134,11 @@ export const PRICING_CONFIG = {
   TAX_RATE: 0.0, // No tax for digital products
 } as const;
 
+export const DOWNLOAD_CONFIG = {
+  TOKEN_COOKIE: 'pb_download', // Signed payment intent ID, set at checkout for the buyer's browser only
+  TOKEN_MAX_AGE_S: 60 * 60, // 1 hour from checkout to pay and download
+} as const;
+
 export const SESSION_CONFIG = {
   EXPIRY_MS: 24 * 60 * 60 * 1000, // 24 hours
   CLEANUP_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
@@ -44,12 +149,42 @@ export const AI_MODELS = {
   FULL: 'gemini-2.5-flash-image-preview',
 } as const;
 
+// Tried in order after the configured model fails or its circuit is open
+export const AI_MODEL_FALLBACKS: readonly string[] = [
+  'gemini-2.5-flash-image',
+];
+
+export const CIRCUIT_BREAKER_CONFIG = {
+  FAILURE_THRESHOLD: 5, // Consecutive failures before the circuit opens
+  RESET_TIMEOUT_MS: 30000, // 30 seconds open before a half-open probe
+  HALF_OPEN_MAX_PROBES: 1, // Concurrent probe requests while half-open
+} as const;
+
+// USD per 1M tokens, by model. Image output is billed separately from text output.
+export const AI_MODEL_PRICING: Record<string, {
+  INPUT_PER_MILLION: number;
+  OUTPUT_TEXT_PER_MILLION: number;
+  OUTPUT_IMAGE_PER_MILLION: number;
+}> = {
+  'gemini-2.5-flash-image-preview': {
+    INPUT_PER_MILLION: 0.30, // Text and image input
+    OUTPUT_TEXT_PER_MILLION: 2.50,
+    OUTPUT_IMAGE_PER_MILLION: 30.00, // 1,290 tokens per 1024x1024 image = $0.0387
+  },
+  'gemini-2.5-flash-image': {
+    INPUT_PER_MILLION: 0.30,
+    OUTPUT_TEXT_PER_MILLION: 2.50,
+    OUTPUT_IMAGE_PER_MILLION: 30.00,
+  },
+};
+
 export const CUSTOMIZATION_OPTIONS = {
   BACKGROUNDS: [
     { id: 'office', name: 'Office', description: 'Professional office setting' },
     { id: 'studio', name: 'Studio', description: 'Clean studio background' },
     { id: 'outdoor', name: 'Outdoor', description: 'Outdoor professional setting' },
     { id: 'conference', name: 'Conference', description: 'Conference room setting' },
+    { id: 'custom', name: 'Custom', description: 'Your own office or brand backdrop' },
   ],
   STYLES: [
     { id: 'professional', name: 'Professional', description: 'Professional business attire' },
@@ -74,6 +209,64 @@ export const CUSTOMIZATION_OPTIONS = {
     { id: 'authoritative', name: 'Authoritative', description: 'Commanding presence' },
     { id: 'approachable', name: 'Approachable', description: 'Welcoming and accessible' },
   ],
+  LIGHTING: [
+    { id: 'rembrandt', name: 'Rembrandt', description: 'Classic side light with a triangle on the cheek' },
+    { id: 'butterfly', name: 'Butterfly', description: 'Flattering front light from above' },
+    { id: 'high-key', name: 'High-Key', description: 'Bright, airy and low contrast' },
+    { id: 'low-key', name: 'Low-Key', description: 'Dramatic with deep shadows' },
+    { id: 'natural-window', name: 'Natural Window', description: 'Soft daylight from one side' },
+  ],
+  COMPOSITIONS: [
+    { id: 'tight-headshot', name: 'Tight Headshot', description: 'Face fills the frame' },
+    { id: 'head-and-shoulders', name: 'Head & Shoulders', description: 'Classic profile framing' },
+    { id: 'half-body', name: 'Half Body', description: 'Waist up, more of your outfit' },
+  ],
+  WARDROBE: {
+    GARMENTS: [
+      { id: 'suit', name: 'Suit', description: 'Tailored business suit' },
+      { id: 'blazer', name: 'Blazer', description: 'Blazer over a shirt or top' },
+      { id: 'dress-shirt', name: 'Dress Shirt', description: 'Collared shirt, no jacket' },
+      { id: 'blouse', name: 'Blouse', description: 'Tailored blouse' },
+      { id: 'sweater', name: 'Sweater', description: 'Fine-knit sweater' },
+      { id: 'polo', name: 'Polo', description: 'Smart polo shirt' },
+      { id: 'scrubs', name: 'Scrubs', description: 'Medical scrubs' },
+      { id: 'lab-coat', name: 'Lab Coat', description: 'White coat over business wear' },
+    ],
+    COLORS: [
+      { id: 'navy', name: 'Navy', hex: '#1f2a44' },
+      { id: 'charcoal', name: 'Charcoal', hex: '#36454f' },
+      { id: 'black', name: 'Black', hex: '#111111' },
+      { id: 'gray', name: 'Gray', hex: '#8a8d91' },
+      { id: 'white', name: 'White', hex: '#f5f5f5' },
+      { id: 'light-blue', name: 'Light Blue', hex: '#a7c7e7' },
+      { id: 'beige', name: 'Beige', hex: '#d8c3a5' },
+      { id: 'burgundy', name: 'Burgundy', hex: '#800020' },
+      { id: 'teal', name: 'Teal', hex: '#2a7f84' },
+    ],
+    ACCESSORIES: [
+      { id: 'tie', name: 'Tie' },
+      { id: 'bow-tie', name: 'Bow Tie' },
+      { id: 'pocket-square', name: 'Pocket Square' },
+      { id: 'name-badge', name: 'Name Badge' },
+      { id: 'stethoscope', name: 'Stethoscope' },
+      { id: 'jewelry', name: 'Minimal Jewelry' },
+    ],
+    GLASSES: [
+      { id: 'keep', name: 'Keep my glasses' },
+      { id: 'remove', name: 'Remove glasses' },
+    ],
+    HAIR: [
+      { id: 'as-is', name: 'Keep as is' },
+      { id: 'tidy', name: 'Tidy up' },
+    ],
+  },
+  USE_CASES: [
+    { id: 'linkedin', name: 'LinkedIn', description: 'Square profile photo', aspectRatio: { width: 1, height: 1 } },
+    { id: 'business-card', name: 'Business Card', description: 'Portrait 3:4 crop for print', aspectRatio: { width: 3, height: 4 } },
+    { id: 'website', name: 'Website', description: 'Portrait 4:5 crop for team pages', aspectRatio: { width: 4, height: 5 } },
+    { id: 'presentation', name: 'Presentation', description: 'Widescreen 16:9 slide image', aspectRatio: { width: 16, height: 9 } },
+    { id: 'general', name: 'General', description: 'Versatile square portrait', aspectRatio: { width: 1, height: 1 } },
+  ],
 } as const;
 
 export const ERROR_MESSAGES = {
@@ -84,6 +277,7 @@ export const ERROR_MESSAGES = {
   RATE_LIMIT_EXCEEDED: 'Too many requests. Please try again later.',
   SESSION_EXPIRED: 'Your session has expired. Please start over.',
   NETWORK_ERROR: 'Network error. Please check your connection.',
+  SERVICE_UNAVAILABLE: 'Our portrait generator is busy right now. Please try again in a few minutes.',
 } as const;
 
 export const SUCCESS_MESSAGES = {
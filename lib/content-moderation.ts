@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import { createModerationClassifier, ModerationClassifier, ModerationInput, ModerationResult } from './moderation';
+import { env } from './env-validation';
+import { MODERATION_CONFIG } from './constants';
+
+/**
+ * Content Moderation
+ * Screens uploads before generation through a pluggable classifier and keeps
+ * a log of every review and deny decision
+ */
+
+export interface ModerationLogEntry {
+  id: string;
+  imageHash: string; // SHA-256 of the upload; the photo itself is not kept
+  decision: ModerationResult['decision'];
+  reasons: ModerationResult['reasons'];
+  classifier: ModerationResult['classifier'];
+  createdAt: number;
+}
+
+// In-memory moderation log, newest last (in production, use a database)
+const moderationLog: ModerationLogEntry[] = [];
+
+export class ContentModerationService {
+  private static classifier: ModerationClassifier | null = null;
+
+  /**
+   * Classify an upload. Classifier failures are sent to review, which holds
+   * the upload, rather than skipping moderation.
+   */
+  static async moderate(input: ModerationInput): Promise<ModerationResult> {
+    const classifier = this.getClassifier();
+    let result: ModerationResult;
+
+    try {
+      result = await classifier.classify(input);
+    } catch (error) {
+      console.error(`Moderation classifier ${classifier.name} failed:`, error);
+      result = {
+        decision: 'review',
+        reasons: [{
+          category: 'classifier-error',
+          decision: 'review',
+          message: 'Photo could not be screened automatically',
+        }],
+        classifier: classifier.name,
+      };
+    }
+
+    if (result.decision !== 'allow') {
+      this.record(input, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace the configured classifier (tests, custom backends)
+   */
+  static setClassifier(classifier: ModerationClassifier | null): void {
+    this.classifier = classifier;
+  }
+
+  /**
+   * Get logged review and deny decisions, newest first (admin function)
+   */
+  static getLog(decision?: ModerationLogEntry['decision']): ModerationLogEntry[] {
+    return moderationLog
+      .filter(entry => !decision || entry.decision === decision)
+      .reverse();
+  }
+
+  /**
+   * Clear the moderation log (admin function)
+   */
+  static clearAll(): void {
+    moderationLog.length = 0;
+  }
+
+  private static getClassifier(): ModerationClassifier {
+    if (!this.classifier) {
+      const config = env.getModerationConfig();
+      this.classifier = createModerationClassifier(config.classifier, config);
+    }
+    return this.classifier;
+  }
+
+  private static record(input: ModerationInput, result: ModerationResult): void {
+    const base64Data = input.image.replace(/^data:image\/[a-z]+;base64,/, '');
+    const entry: ModerationLogEntry = {
+      id: crypto.randomUUID(),
+      imageHash: createHash('sha256').update(Buffer.from(base64Data, 'base64')).digest('hex'),
+      decision: result.decision,
+      reasons: result.reasons,
+      classifier: result.classifier,
+      createdAt: Date.now(),
+    };
+
+    moderationLog.push(entry);
+    if (moderationLog.length > MODERATION_CONFIG.LOG_LIMIT) {
+      moderationLog.splice(0, moderationLog.length - MODERATION_CONFIG.LOG_LIMIT);
+    }
+
+    console.warn(
+      `Upload moderation ${entry.decision} (${entry.classifier}):`,
+      entry.reasons.map(reason => `${reason.category}: ${reason.message}`).join('; ')
+    );
+  }
+}
+
+export default ContentModerationService;
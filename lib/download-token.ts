@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { env } from './env-validation';
+import { DOWNLOAD_CONFIG } from './constants';
+
+/**
+ * Download Tokens
+ * Bind full-size downloads to the browser that checked out. Creating a
+ * payment intent sets an HttpOnly cookie holding the intent ID, its expiry
+ * and a signature, and the download route only releases the intent named in
+ * a valid cookie, so a copied download page URL is useless to anyone else.
+ * Tokens are signed with a key derived from the Stripe secret key.
+ */
+
+export interface DownloadTokenResult {
+  valid: boolean;
+  paymentIntentId?: string;
+  error?: string;
+}
+
+const PAYMENT_INTENT_PATTERN = /^pi_[A-Za-z0-9_]+$/;
+
+export class DownloadTokenService {
+  /**
+   * Create a token for a payment intent, valid for TOKEN_MAX_AGE_S
+   */
+  static issue(paymentIntentId: string, now = Date.now()): string {
+    const expiresAt = Math.floor(now / 1000) + DOWNLOAD_CONFIG.TOKEN_MAX_AGE_S;
+    return `${paymentIntentId}.${expiresAt}.${this.sign(paymentIntentId, expiresAt)}`;
+  }
+
+  /**
+   * Check a token's signature and expiry and get the payment intent it names
+   */
+  static verify(token: string | undefined, now = Date.now()): DownloadTokenResult {
+    if (!token) {
+      return { valid: false, error: 'No download token for this browser' };
+    }
+
+    const [paymentIntentId, expiry, signature] = token.split('.');
+    if (!PAYMENT_INTENT_PATTERN.test(paymentIntentId) || !/^\d+$/.test(expiry || '') || !signature) {
+      return { valid: false, error: 'Invalid download token' };
+    }
+
+    const expected = Buffer.from(this.sign(paymentIntentId, Number(expiry)));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { valid: false, error: 'Invalid download token' };
+    }
+
+    if (Number(expiry) * 1000 <= now) {
+      return { valid: false, error: 'Download token has expired' };
+    }
+
+    return { valid: true, paymentIntentId };
+  }
+
+  /**
+   * Read and verify the token cookie sent with a request
+   */
+  static fromRequest(request: NextRequest): DownloadTokenResult {
+    return this.verify(request.cookies.get(DOWNLOAD_CONFIG.TOKEN_COOKIE)?.value);
+  }
+
+  /**
+   * Set the token cookie for a payment intent on a response
+   */
+  static persist(response: NextResponse, paymentIntentId: string): void {
+    response.cookies.set(DOWNLOAD_CONFIG.TOKEN_COOKIE, this.issue(paymentIntentId), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/generate-full',
+      maxAge: DOWNLOAD_CONFIG.TOKEN_MAX_AGE_S,
+    });
+  }
+
+  private static sign(paymentIntentId: string, expiresAt: number): string {
+    const key = createHmac('sha256', env.getStripeConfig().secretKey).update('download-token').digest();
+    return createHmac('sha256', key).update(`${paymentIntentId}:${expiresAt}`).digest('base64url');
+  }
+}
+
+export default DownloadTokenService;
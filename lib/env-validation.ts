@@ -1,3 +1,6 @@
+import { MODERATION_CONFIG, PROMPT_EXPERIMENT_CONFIG } from './constants';
+import type { PromptVariation } from './prompt-builder';
+
 /**
  * Environment Variable Validation
  * Validates and provides type-safe access to environment variables
@@ -14,6 +17,9 @@ interface EnvConfig {
   // Optional variables with defaults
   NODE_ENV: 'development' | 'production' | 'test';
   DEV_MODE_SKIP_AI: boolean;
+  AI_PROVIDER: 'gemini' | 'mock';
+  AI_MAX_RETRIES: number;
+  MODERATION_CLASSIFIER: 'gemini' | 'rules';
   UPLOAD_MAX_SIZE: number;
   RATE_LIMIT_MAX_ATTEMPTS: number;
   RATE_LIMIT_WINDOW_MS: number;
@@ -21,6 +27,11 @@ interface EnvConfig {
   GENERATION_FULL_COST: number;
   DOWNLOAD_PRICE: number;
   CURRENCY: string;
+  PROMPT_OVERRIDE_SECRET?: string;
+  PROMPT_EXPERIMENT_WEIGHTS: Record<PromptVariation, number>;
+  ADMIN_API_SECRET?: string;
+  FORENSIC_WATERMARK_SECRET?: string;
+  PROVENANCE_SIGNING_KEY?: string;
   
   // Optional cloud storage
   AWS_ACCESS_KEY_ID?: string;
@@ -86,6 +97,21 @@ class EnvValidation {
       throw new Error('NEXT_PUBLIC_APP_URL must be a valid URL');
     }
 
+    // Validate AI provider
+    const aiProvider = process.env.AI_PROVIDER;
+    if (aiProvider && !['gemini', 'mock'].includes(aiProvider)) {
+      throw new Error('AI_PROVIDER must be one of: gemini, mock');
+    }
+
+    // Validate moderation classifier
+    const moderationClassifier = process.env.MODERATION_CLASSIFIER;
+    if (moderationClassifier && !['gemini', 'rules'].includes(moderationClassifier)) {
+      throw new Error('MODERATION_CLASSIFIER must be one of: gemini, rules');
+    }
+
+    // Validate prompt experiment weights, e.g. "detailed:50,basic:25,creative:25"
+    const experimentWeights = this.parseExperimentWeights(process.env.PROMPT_EXPERIMENT_WEIGHTS);
+
     // Validate numeric values
     const numericVars = [
       'UPLOAD_MAX_SIZE',
@@ -94,6 +120,7 @@ class EnvValidation {
       'GENERATION_PREVIEW_COST',
       'GENERATION_FULL_COST',
       'DOWNLOAD_PRICE',
+      'AI_MAX_RETRIES',
     ];
 
     for (const varName of numericVars) {
@@ -103,6 +130,9 @@ class EnvValidation {
       }
     }
 
+    const devModeSkipAI = process.env.DEV_MODE_SKIP_AI === 'true' || nodeEnv === 'development';
+    const resolvedProvider = (aiProvider as 'gemini' | 'mock') || (devModeSkipAI ? 'mock' : 'gemini');
+
     return {
       // Required variables
       GEMINI_API_KEY: process.env.GEMINI_API_KEY!,
@@ -113,7 +143,11 @@ class EnvValidation {
       
       // Optional variables with defaults
       NODE_ENV: nodeEnv || 'development',
-      DEV_MODE_SKIP_AI: process.env.DEV_MODE_SKIP_AI === 'true' || nodeEnv === 'development',
+      DEV_MODE_SKIP_AI: devModeSkipAI,
+      AI_PROVIDER: resolvedProvider,
+      AI_MAX_RETRIES: parseInt(process.env.AI_MAX_RETRIES || '0'), // 0 disables retries for cost savings
+      MODERATION_CLASSIFIER: (moderationClassifier as 'gemini' | 'rules') ||
+        (resolvedProvider === 'mock' ? 'rules' : 'gemini'),
       UPLOAD_MAX_SIZE: parseInt(process.env.UPLOAD_MAX_SIZE || '10485760'), // 10MB
       RATE_LIMIT_MAX_ATTEMPTS: parseInt(process.env.RATE_LIMIT_MAX_ATTEMPTS || '3'),
       RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '86400000'), // 24 hours
@@ -121,6 +155,11 @@ class EnvValidation {
       GENERATION_FULL_COST: parseFloat(process.env.GENERATION_FULL_COST || '0.039'),
       DOWNLOAD_PRICE: parseInt(process.env.DOWNLOAD_PRICE || '799'),
       CURRENCY: process.env.CURRENCY || 'usd',
+      PROMPT_OVERRIDE_SECRET: process.env.PROMPT_OVERRIDE_SECRET || undefined, // Unset disables raw prompts
+      PROMPT_EXPERIMENT_WEIGHTS: experimentWeights,
+      ADMIN_API_SECRET: process.env.ADMIN_API_SECRET || undefined, // Unset disables admin endpoints outside development
+      FORENSIC_WATERMARK_SECRET: process.env.FORENSIC_WATERMARK_SECRET || undefined, // Unset disables forensic watermarks
+      PROVENANCE_SIGNING_KEY: process.env.PROVENANCE_SIGNING_KEY?.replace(/\\n/g, '\n') || undefined, // Unset embeds provenance metadata without a signed manifest
       
       // Optional cloud storage
       AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
@@ -137,6 +176,33 @@ class EnvValidation {
     };
   }
 
+  /**
+   * Parse "variant:weight" pairs; unlisted variants get weight 0
+   */
+  private parseExperimentWeights(value: string | undefined): Record<PromptVariation, number> {
+    if (!value) {
+      return { ...PROMPT_EXPERIMENT_CONFIG.DEFAULT_WEIGHTS };
+    }
+
+    const weights: Record<PromptVariation, number> = { basic: 0, detailed: 0, technical: 0, creative: 0 };
+    for (const pair of value.split(',')) {
+      const [variant, weight] = pair.split(':').map(part => part.trim());
+      if (!Object.prototype.hasOwnProperty.call(weights, variant)) {
+        throw new Error(`PROMPT_EXPERIMENT_WEIGHTS has an unknown variant: ${variant}`);
+      }
+      if (!weight || isNaN(Number(weight)) || Number(weight) < 0) {
+        throw new Error(`PROMPT_EXPERIMENT_WEIGHTS must give ${variant} a non-negative number`);
+      }
+      weights[variant as PromptVariation] = Number(weight);
+    }
+
+    if (Object.values(weights).every(weight => weight === 0)) {
+      throw new Error('PROMPT_EXPERIMENT_WEIGHTS must give at least one variant a positive weight');
+    }
+
+    return weights;
+  }
+
   public get<K extends keyof EnvConfig>(key: K): EnvConfig[K] {
     return this.config[key];
   }
@@ -197,8 +263,47 @@ class EnvValidation {
     return {
       apiKey: this.config.GEMINI_API_KEY,
       model: 'gemini-2.5-flash-image-preview',
+      provider: this.config.AI_PROVIDER,
       baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-      maxRetries: 0,
+      maxRetries: this.config.AI_MAX_RETRIES,
+    };
+  }
+
+  public getModerationConfig() {
+    return {
+      classifier: this.config.MODERATION_CLASSIFIER,
+      apiKey: this.config.GEMINI_API_KEY,
+      model: MODERATION_CONFIG.MODEL,
+    };
+  }
+
+  public getPromptPolicyConfig() {
+    return {
+      overrideSecret: this.config.PROMPT_OVERRIDE_SECRET,
+    };
+  }
+
+  public getPromptExperimentConfig() {
+    return {
+      weights: this.config.PROMPT_EXPERIMENT_WEIGHTS,
+    };
+  }
+
+  public getAdminConfig() {
+    return {
+      secret: this.config.ADMIN_API_SECRET,
+    };
+  }
+
+  public getProvenanceConfig() {
+    return {
+      signingKey: this.config.PROVENANCE_SIGNING_KEY,
+    };
+  }
+
+  public getForensicWatermarkConfig() {
+    return {
+      secret: this.config.FORENSIC_WATERMARK_SECRET,
     };
   }
 
@@ -257,6 +362,7 @@ class EnvValidation {
       console.log('📋 Configuration loaded:');
       console.log(`   - Environment: ${this.config.NODE_ENV}`);
       console.log(`   - App URL: ${this.config.NEXT_PUBLIC_APP_URL}`);
+      console.log(`   - AI Provider: ${this.config.AI_PROVIDER}`);
       console.log(`   - Upload Max Size: ${Math.round(this.config.UPLOAD_MAX_SIZE / 1024 / 1024)}MB`);
       console.log(`   - Rate Limit: ${this.config.RATE_LIMIT_MAX_ATTEMPTS} attempts per day`);
       console.log(`   - Download Price: $${(this.config.DOWNLOAD_PRICE / 100).toFixed(2)}`);
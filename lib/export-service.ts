@@ -0,0 +1,194 @@
+import sharp from 'sharp';
+import { ProvenanceInfo, ProvenanceService } from './provenance';
+import { ForensicWatermarkService } from './forensic-watermark';
+import { OutputGeometry, Dimensions } from './output-geometry';
+import { EXPORT_CONFIG } from './constants';
+
+/**
+ * Export Service
+ * Renders a purchased portrait to the format, size and quality the customer
+ * picks on the download page, marks it with the purchase and labels the
+ * result with provenance metadata
+ */
+
+export type ExportFormat = typeof EXPORT_CONFIG.FORMATS[number]['id'];
+export type ExportPreset = typeof EXPORT_CONFIG.PRESETS[number]['id'];
+export type ExportQuality = keyof typeof EXPORT_CONFIG.QUALITY_LEVELS;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  preset: ExportPreset;
+  quality: ExportQuality;
+}
+
+export interface ExportResult {
+  success: boolean;
+  imageData?: string; // Base64 data without a data URL prefix
+  mimeType?: string;
+  fileName?: string;
+  dimensions?: Dimensions;
+  options?: ExportOptions;
+  forensicWatermark?: boolean; // Carries the purchase mark, see ForensicWatermarkService
+  error?: string;
+}
+
+export class ExportService {
+  /**
+   * Validate requested export options, filling in the defaults
+   */
+  static resolveOptions(input: {
+    format?: string | null;
+    preset?: string | null;
+    quality?: string | null;
+  }): { success: boolean; options?: ExportOptions; error?: string } {
+    const format = input.format || EXPORT_CONFIG.DEFAULTS.format;
+    const preset = input.preset || EXPORT_CONFIG.DEFAULTS.preset;
+    const quality = input.quality || EXPORT_CONFIG.DEFAULTS.quality;
+
+    if (!EXPORT_CONFIG.FORMATS.some(option => option.id === format)) {
+      return {
+        success: false,
+        error: `Unsupported format: ${format}. Choose one of: ${EXPORT_CONFIG.FORMATS.map(option => option.id).join(', ')}`,
+      };
+    }
+
+    if (!EXPORT_CONFIG.PRESETS.some(option => option.id === preset)) {
+      return {
+        success: false,
+        error: `Unknown size preset: ${preset}. Choose one of: ${EXPORT_CONFIG.PRESETS.map(option => option.id).join(', ')}`,
+      };
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(EXPORT_CONFIG.QUALITY_LEVELS, quality)) {
+      return {
+        success: false,
+        error: `Unknown quality: ${quality}. Choose one of: ${Object.keys(EXPORT_CONFIG.QUALITY_LEVELS).join(', ')}`,
+      };
+    }
+
+    return {
+      success: true,
+      options: {
+        format: format as ExportFormat,
+        preset: preset as ExportPreset,
+        quality: quality as ExportQuality,
+      },
+    };
+  }
+
+  /**
+   * Get the output size of a preset for a source image. Square presets crop;
+   * the others keep the aspect ratio and never upscale.
+   */
+  static getDimensions(preset: ExportPreset, source: Dimensions): Dimensions {
+    const { longEdge, square } = this.getPreset(preset);
+
+    if (square) {
+      return { width: longEdge, height: longEdge };
+    }
+
+    return OutputGeometry.limitLongEdge(source, longEdge);
+  }
+
+  /**
+   * Render base64 image data with the given export options. With a purchase,
+   * the forensic mark goes into the resized raster right before the final
+   * encode, since cropping or shrinking a marked image would destroy it.
+   */
+  static async export(
+    imageData: string,
+    options: ExportOptions,
+    provenance: ProvenanceInfo,
+    purchase?: { paymentIntentId: string }
+  ): Promise<ExportResult> {
+    try {
+      const input = Buffer.from(imageData.replace(/^data:image\/[a-z]+;base64,/, ''), 'base64');
+      const metadata = await sharp(input).metadata();
+      const dimensions = this.getDimensions(options.preset, {
+        width: metadata.width || 0,
+        height: metadata.height || 0,
+      });
+
+      const format = EXPORT_CONFIG.FORMATS.find(option => option.id === options.format)!;
+      const preset = this.getPreset(options.preset);
+      const levels = EXPORT_CONFIG.QUALITY_LEVELS[options.quality];
+
+      let pipeline = sharp(input).resize(dimensions.width, dimensions.height, {
+        fit: 'cover',
+        position: 'attention',
+      });
+
+      // Tie the download to the purchase; never hold back a paid image over it
+      let forensicWatermark = false;
+      if (purchase) {
+        const resized = (await pipeline.png({ compressionLevel: 1 }).toBuffer()).toString('base64');
+        const marked = await ForensicWatermarkService.markPurchase(
+          resized,
+          provenance.generationId,
+          purchase.paymentIntentId
+        );
+
+        if (marked.success && marked.imageData) {
+          forensicWatermark = true;
+          pipeline = sharp(Buffer.from(marked.imageData, 'base64'));
+        } else {
+          console.warn(`Exporting ${provenance.generationId} without a forensic watermark: ${marked.error}`);
+          pipeline = sharp(Buffer.from(resized, 'base64'));
+        }
+      }
+
+      pipeline = pipeline.withMetadata({ density: preset.dpi }); // Only JPEG and PNG store a DPI value
+
+      // JPEG and PNG get the signed provenance packet after encoding; the
+      // others can only carry the labels, written by sharp while encoding
+      switch (options.format) {
+        case 'jpeg':
+          pipeline = pipeline.jpeg({ quality: levels.jpeg });
+          break;
+        case 'png':
+          pipeline = pipeline.png({ compressionLevel: 9 });
+          break;
+        case 'webp':
+          pipeline = pipeline.withXmp(ProvenanceService.createXmpPacket(provenance)).webp({ quality: levels.webp });
+          break;
+        case 'avif':
+          pipeline = pipeline
+            .withXmp(ProvenanceService.createXmpPacket(provenance))
+            .avif({ quality: levels.avif, effort: EXPORT_CONFIG.AVIF_EFFORT });
+          break;
+      }
+
+      let output = (await pipeline.toBuffer()).toString('base64');
+
+      if (options.format === 'jpeg' || options.format === 'png') {
+        const labeled = ProvenanceService.embed(output, provenance);
+        if (!labeled.success) {
+          console.warn('Exporting without provenance metadata:', labeled.error);
+        }
+        output = labeled.imageData || output;
+      }
+
+      return {
+        success: true,
+        imageData: output,
+        mimeType: format.mimeType,
+        fileName: `professional-portrait-${preset.id}.${format.extension}`,
+        dimensions,
+        options,
+        forensicWatermark,
+      };
+    } catch (error) {
+      console.error('Export error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export image',
+      };
+    }
+  }
+
+  private static getPreset(preset: ExportPreset) {
+    return EXPORT_CONFIG.PRESETS.find(option => option.id === preset)!;
+  }
+}
+
+export default ExportService;
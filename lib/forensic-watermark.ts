@@ -0,0 +1,422 @@
+import { createCipheriv, createHmac, timingSafeEqual } from 'crypto';
+import sharp from 'sharp';
+import { env } from './env-validation';
+import { FORENSIC_WATERMARK_CONFIG } from './constants';
+
+/**
+ * Forensic Watermarking
+ * Hides the generation ID and a purchase hash in paid downloads so leaked
+ * copies can be traced to their order. The image is split into a grid of
+ * cells and each cell's brightness is nudged up or down by a keyed
+ * pseudo-random pattern. The grid is the finest whose cells are at least
+ * MIN_CELL_SIZE pixels, and the shifts are flat across each cell, so the
+ * mark must be embedded at the delivered size: it survives that one encode
+ * and later recompression, but not cropping and not downscaling far enough
+ * to shrink cells below a few pixels.
+ */
+
+export interface ForensicPayload {
+  generationId: string;
+  purchaseHash: string; // Keyed hash of the payment intent ID, 16 hex characters
+}
+
+export interface ForensicOrder extends ForensicPayload {
+  paymentIntentId: string;
+  markedAt: number;
+}
+
+export interface ForensicWatermarkResult {
+  success: boolean;
+  imageData?: string; // Marked base64 PNG data, lossless so the caller encodes it once
+  payload?: ForensicPayload;
+  error?: string;
+}
+
+export interface ForensicVerification {
+  success: boolean;
+  detected: boolean; // The image carries a valid mark made with our key
+  payload?: ForensicPayload;
+  order?: ForensicOrder; // Purchase the mark maps to, if still on record
+  score?: number; // Mean bit correlation over its noise level; around 1 for unmarked images
+  error?: string;
+}
+
+// Payload layout: 16-byte generation UUID, 8-byte purchase hash, 4-byte authentication tag
+const ID_BYTES = 16;
+const PURCHASE_BYTES = 8;
+const TAG_BYTES = 4;
+const PAYLOAD_BITS = (ID_BYTES + PURCHASE_BYTES + TAG_BYTES) * 8;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CellLayout {
+  bitOf: Uint16Array; // Payload bit carried by each cell
+  chip: Int8Array; // Direction, +1 or -1, of each cell's shift for a 1 bit
+}
+
+// In-memory record of marked purchases by purchase hash (in production, use a database)
+const orderStore = new Map<string, ForensicOrder>();
+
+// Cell layouts per grid size, derived from the current secret and built on first use
+let cachedLayouts: { secret: string; layouts: Map<number, CellLayout> } | null = null;
+
+export class ForensicWatermarkService {
+  /**
+   * Check whether a secret is configured
+   */
+  static isEnabled(): boolean {
+    return !!env.getForensicWatermarkConfig().secret;
+  }
+
+  /**
+   * Derive the purchase hash embedded for a payment intent
+   */
+  static getPurchaseHash(paymentIntentId: string): string {
+    return this.hmac(`purchase:${paymentIntentId}`).subarray(0, PURCHASE_BYTES).toString('hex');
+  }
+
+  /**
+   * Get the grid an image of this size is marked with, or null when it is too small
+   */
+  static getGridSize(width: number, height: number): number | null {
+    const { GRID_SIZES, MIN_CELL_SIZE } = FORENSIC_WATERMARK_CONFIG;
+    return GRID_SIZES.find(size => Math.min(width, height) / size >= MIN_CELL_SIZE) ?? null;
+  }
+
+  /**
+   * Mark a paid download with its generation and purchase, and record the
+   * order so a verified copy maps back to it
+   */
+  static async markPurchase(
+    imageData: string,
+    generationId: string,
+    paymentIntentId: string
+  ): Promise<ForensicWatermarkResult> {
+    if (!this.isEnabled()) {
+      return { success: false, error: 'Forensic watermarking is not configured' };
+    }
+
+    const payload = { generationId, purchaseHash: this.getPurchaseHash(paymentIntentId) };
+    const result = await this.embed(imageData, payload);
+
+    if (result.success) {
+      this.recordOrder({ ...payload, paymentIntentId, markedAt: Date.now() });
+    }
+
+    return result;
+  }
+
+  /**
+   * Embed a payload into base64 image data
+   */
+  static async embed(imageData: string, payload: ForensicPayload): Promise<ForensicWatermarkResult> {
+    try {
+      if (!this.isEnabled()) {
+        return { success: false, error: 'Forensic watermarking is not configured' };
+      }
+
+      if (!UUID_PATTERN.test(payload.generationId)) {
+        return { success: false, error: 'Generation ID must be a UUID' };
+      }
+
+      if (!/^[0-9a-f]{16}$/.test(payload.purchaseHash)) {
+        return { success: false, error: 'Purchase hash must be 16 hex characters' };
+      }
+
+      const { data, info } = await sharp(this.toBuffer(imageData))
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const grid = this.getGridSize(info.width, info.height);
+      if (!grid) {
+        const minSize = Math.min(...FORENSIC_WATERMARK_CONFIG.GRID_SIZES) * FORENSIC_WATERMARK_CONFIG.MIN_CELL_SIZE;
+        return { success: false, error: `Image must be at least ${minSize}x${minSize} to carry a watermark` };
+      }
+
+      // Shift of each cell: its chip direction, flipped for 0 bits
+      const bits = this.encodePayload(payload);
+      const { bitOf, chip } = this.getLayout(grid);
+      const shifts = new Float32Array(grid * grid);
+      for (let cell = 0; cell < shifts.length; cell++) {
+        shifts[cell] = FORENSIC_WATERMARK_CONFIG.STRENGTH * chip[cell] * (bits[bitOf[cell]] ? 1 : -1);
+      }
+
+      // Shift every colour channel equally so only brightness changes
+      const { width, height, channels } = info;
+      const colourChannels = Math.min(channels, 3);
+      for (let y = 0; y < height; y++) {
+        const row = Math.floor((y * grid) / height) * grid;
+        for (let x = 0; x < width; x++) {
+          const shift = shifts[row + Math.floor((x * grid) / width)];
+          const offset = (y * width + x) * channels;
+          for (let channel = 0; channel < colourChannels; channel++) {
+            data[offset + channel] = Math.max(0, Math.min(255, Math.round(data[offset + channel] + shift)));
+          }
+        }
+      }
+
+      const marked = await sharp(data, { raw: { width, height, channels } })
+        .png({ compressionLevel: 1 })
+        .toBuffer();
+
+      return {
+        success: true,
+        imageData: marked.toString('base64'),
+        payload,
+      };
+    } catch (error) {
+      console.error('Forensic watermark error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to embed forensic watermark',
+      };
+    }
+  }
+
+  /**
+   * Read the payload from base64 image data and look up its order
+   */
+  static async verify(imageData: string): Promise<ForensicVerification> {
+    try {
+      if (!this.isEnabled()) {
+        return { success: false, detected: false, error: 'Forensic watermarking is not configured' };
+      }
+
+      const { data, info } = await sharp(this.toBuffer(imageData))
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      // Try the grid this size would be marked with first, then the others in
+      // case the copy was resized; the authentication tag rules out false matches
+      const expected = this.getGridSize(info.width, info.height);
+      const grids = FORENSIC_WATERMARK_CONFIG.GRID_SIZES
+        .filter(size => info.width >= size && info.height >= size)
+        .sort((a, b) => Number(b === expected) - Number(a === expected));
+      if (grids.length === 0) {
+        const minSize = Math.min(...FORENSIC_WATERMARK_CONFIG.GRID_SIZES);
+        return { success: false, detected: false, error: `Image must be at least ${minSize}x${minSize} to verify` };
+      }
+
+      let best = 0;
+      for (const grid of grids) {
+        const { correlations, score } = this.readCorrelations(data, info, grid);
+        const payload = this.decodeCorrelations(correlations);
+        if (!payload) {
+          best = Math.max(best, score);
+          continue;
+        }
+
+        return {
+          success: true,
+          detected: true,
+          payload,
+          order: orderStore.get(payload.purchaseHash),
+          score,
+        };
+      }
+
+      return { success: true, detected: false, score: best };
+    } catch (error) {
+      console.error('Forensic watermark verification error:', error);
+      return {
+        success: false,
+        detected: false,
+        error: error instanceof Error ? error.message : 'Failed to verify forensic watermark',
+      };
+    }
+  }
+
+  /**
+   * Correlate greyscale pixels with the cell pattern of one grid size
+   */
+  private static readCorrelations(
+    data: Buffer,
+    info: { width: number; height: number; channels: number },
+    grid: number
+  ): { correlations: Float64Array; score: number } {
+    // Average brightness of each cell, mapped the same way as when embedding
+    const { width, height, channels } = info;
+    const sums = new Float64Array(grid * grid);
+    const counts = new Uint32Array(grid * grid);
+    for (let y = 0; y < height; y++) {
+      const row = Math.floor((y * grid) / height) * grid;
+      for (let x = 0; x < width; x++) {
+        const cell = row + Math.floor((x * grid) / width);
+        sums[cell] += data[(y * width + x) * channels];
+        counts[cell]++;
+      }
+    }
+    const means = sums.map((sum, cell) => sum / counts[cell]);
+
+    // Subtract each cell's neighbourhood to drop the picture and keep the shifts,
+    // capped so cells on edges in the picture count no more than the rest,
+    // then correlate with the chips of every bit
+    const { bitOf, chip } = this.getLayout(grid);
+    const limit = FORENSIC_WATERMARK_CONFIG.RESIDUAL_LIMIT;
+    const correlations = new Float64Array(PAYLOAD_BITS);
+    let residualEnergy = 0;
+    for (let y = 0; y < grid; y++) {
+      for (let x = 0; x < grid; x++) {
+        const cell = y * grid + x;
+        const neighbours = [
+          x > 0 ? means[cell - 1] : undefined,
+          x < grid - 1 ? means[cell + 1] : undefined,
+          y > 0 ? means[cell - grid] : undefined,
+          y < grid - 1 ? means[cell + grid] : undefined,
+        ].filter((value): value is number => value !== undefined);
+        const difference = means[cell] - neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length;
+        const residual = Math.max(-limit, Math.min(limit, difference));
+
+        correlations[bitOf[cell]] += residual * chip[cell];
+        residualEnergy += residual * residual;
+      }
+    }
+
+    const cellsPerBit = (grid * grid) / PAYLOAD_BITS;
+    const noise = Math.sqrt((residualEnergy / (grid * grid)) * cellsPerBit);
+    const score = noise > 0
+      ? correlations.reduce((sum, value) => sum + Math.abs(value), 0) / PAYLOAD_BITS / noise
+      : 0;
+
+    return { correlations, score };
+  }
+
+  /**
+   * Decide the payload bits from their correlations. A few bits may be read
+   * wrong in small or heavily compressed copies, so when the tag does not
+   * match, every combination of the least certain bits is tried flipped.
+   */
+  private static decodeCorrelations(correlations: Float64Array): ForensicPayload | null {
+    const bits = Array.from(correlations, value => value > 0);
+    const weakest = Array.from(correlations.keys())
+      .sort((a, b) => Math.abs(correlations[a]) - Math.abs(correlations[b]))
+      .slice(0, FORENSIC_WATERMARK_CONFIG.FLIP_BITS);
+
+    for (let flips = 0; flips < 2 ** weakest.length; flips++) {
+      const candidate = bits.slice();
+      weakest.forEach((bit, index) => {
+        if (flips & (1 << index)) {
+          candidate[bit] = !candidate[bit];
+        }
+      });
+
+      const payload = this.decodePayload(candidate);
+      if (payload) {
+        return payload;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Record a marked purchase, replacing any earlier download of the same order
+   */
+  static recordOrder(order: ForensicOrder): void {
+    orderStore.delete(order.purchaseHash);
+    orderStore.set(order.purchaseHash, order);
+
+    // Maps iterate in insertion order, so the first keys are the oldest
+    for (const purchaseHash of orderStore.keys()) {
+      if (orderStore.size <= FORENSIC_WATERMARK_CONFIG.ORDER_LIMIT) {
+        break;
+      }
+      orderStore.delete(purchaseHash);
+    }
+  }
+
+  /**
+   * Clear all recorded orders (admin function)
+   */
+  static clearAll(): void {
+    orderStore.clear();
+  }
+
+  /**
+   * Pack the payload and its authentication tag into bits, most significant first
+   */
+  private static encodePayload(payload: ForensicPayload): boolean[] {
+    const body = Buffer.concat([
+      Buffer.from(payload.generationId.replace(/-/g, ''), 'hex'),
+      Buffer.from(payload.purchaseHash, 'hex'),
+    ]);
+    const bytes = Buffer.concat([body, this.hmac(body).subarray(0, TAG_BYTES)]);
+
+    return Array.from({ length: PAYLOAD_BITS }, (_, bit) => ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1) === 1);
+  }
+
+  /**
+   * Unpack bits into a payload, or null when the tag does not match
+   */
+  private static decodePayload(bits: boolean[]): ForensicPayload | null {
+    const bytes = Buffer.alloc(PAYLOAD_BITS / 8);
+    bits.forEach((bit, index) => {
+      if (bit) {
+        bytes[index >> 3] |= 1 << (7 - (index & 7));
+      }
+    });
+
+    const body = bytes.subarray(0, ID_BYTES + PURCHASE_BYTES);
+    const tag = bytes.subarray(ID_BYTES + PURCHASE_BYTES);
+    if (!timingSafeEqual(tag, this.hmac(body).subarray(0, TAG_BYTES))) {
+      return null;
+    }
+
+    const id = body.subarray(0, ID_BYTES).toString('hex');
+    return {
+      generationId: `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`,
+      purchaseHash: body.subarray(ID_BYTES).toString('hex'),
+    };
+  }
+
+  /**
+   * Assign every cell to a payload bit and a shift direction. The cells of a
+   * bit are scattered across the image by a keyed shuffle, so a local edit
+   * cannot erase a bit and the pattern cannot be read without the secret.
+   */
+  private static getLayout(grid: number): CellLayout {
+    const secret = env.getForensicWatermarkConfig().secret!;
+    if (cachedLayouts?.secret !== secret) {
+      cachedLayouts = { secret, layouts: new Map() };
+    }
+
+    const cached = cachedLayouts.layouts.get(grid);
+    if (cached) {
+      return cached;
+    }
+
+    const cells = grid ** 2;
+    const key = this.hmac(`layout:${grid}`);
+    const stream = createCipheriv('aes-256-ctr', key, Buffer.alloc(16)).update(Buffer.alloc(cells * 5));
+
+    // Fisher-Yates shuffle of the cells, then deal them out to the bits in turn
+    const order = Uint32Array.from({ length: cells }, (_, cell) => cell);
+    for (let index = cells - 1; index > 0; index--) {
+      const swap = stream.readUInt32BE(index * 4) % (index + 1);
+      [order[index], order[swap]] = [order[swap], order[index]];
+    }
+
+    const bitOf = new Uint16Array(cells);
+    const chip = new Int8Array(cells);
+    for (let index = 0; index < cells; index++) {
+      bitOf[order[index]] = index % PAYLOAD_BITS;
+      chip[index] = stream[cells * 4 + index] & 1 ? 1 : -1;
+    }
+
+    const layout = { bitOf, chip };
+    cachedLayouts.layouts.set(grid, layout);
+    return layout;
+  }
+
+  private static hmac(data: string | Buffer): Buffer {
+    return createHmac('sha256', env.getForensicWatermarkConfig().secret!).update(data).digest();
+  }
+
+  private static toBuffer(imageData: string): Buffer {
+    return Buffer.from(imageData.replace(/^data:image\/[a-z]+;base64,/, ''), 'base64');
+  }
+}
+
+export default ForensicWatermarkService;
@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import { CACHE_CONFIG } from './constants';
+import { GenerationStore } from './generation-store';
+import { PreviewGenerationResponse } from './preview-generation';
+import { CustomizationOptions, UseCase } from '@/types';
+
+/**
+ * Generation Cache
+ * Content-addressed cache of successful preview generations, so repeating an
+ * identical request returns the stored result instead of calling the model again
+ */
+
+export interface GenerationCacheKeyInput {
+  imageData: string; // Base64 upload, with or without data URL prefix
+  referenceImageData?: string[]; // Base64 reference photos, in request order
+  backgroundImageData?: string; // Base64 custom background, when used
+  options: CustomizationOptions;
+  prompt: string; // Final prompt sent to the model
+  useCase: UseCase;
+  candidateCount: number;
+}
+
+export interface GenerationCacheEntry {
+  key: string;
+  response: PreviewGenerationResponse;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+// In-memory store for cached generations (in production, use Redis/cloud storage)
+const cacheStore = new Map<string, GenerationCacheEntry>();
+
+export class GenerationCache {
+  /**
+   * Build the cache key from the image bytes, normalized options and final prompt
+   */
+  static createKey(input: GenerationCacheKeyInput): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        image: this.hashImage(input.imageData),
+        references: input.referenceImageData?.length
+          ? input.referenceImageData.map(imageData => this.hashImage(imageData))
+          : undefined,
+        background: input.backgroundImageData ? this.hashImage(input.backgroundImageData) : undefined,
+        options: this.normalize(input.options),
+        prompt: input.prompt.trim(),
+        useCase: input.useCase,
+        candidateCount: input.candidateCount,
+      }))
+      .digest('hex');
+  }
+
+  /**
+   * Get a cached response, or null if missing, expired or its generations are gone
+   */
+  static get(key: string): PreviewGenerationResponse | null {
+    const entry = cacheStore.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Purchases look up generations by ID, so a hit is only useful while they exist
+    const generationIds = (entry.response.candidates || []).map(candidate => candidate.generationId);
+    if (Date.now() > entry.expiresAt || !generationIds.every(id => GenerationStore.has(id))) {
+      cacheStore.delete(key);
+      return null;
+    }
+
+    entry.hits++;
+    return entry.response;
+  }
+
+  /**
+   * Cache a successful response, replacing any previous entry for the key
+   */
+  static set(key: string, response: PreviewGenerationResponse): void {
+    if (!response.success) {
+      return;
+    }
+
+    const now = Date.now();
+    cacheStore.delete(key);
+    cacheStore.set(key, {
+      key,
+      response,
+      createdAt: now,
+      expiresAt: now + CACHE_CONFIG.TTL_MS,
+      hits: 0,
+    });
+
+    // Clean up expired entries, then evict the oldest while over capacity
+    this.cleanupExpiredEntries();
+    while (cacheStore.size > CACHE_CONFIG.MAX_ENTRIES) {
+      const oldestKey = cacheStore.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      cacheStore.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Remove a cached response
+   */
+  static delete(key: string): boolean {
+    return cacheStore.delete(key);
+  }
+
+  /**
+   * Clear all cached responses (admin function)
+   */
+  static clearAll(): void {
+    cacheStore.clear();
+  }
+
+  /**
+   * Get cache statistics for debugging
+   */
+  static getStats(): { entries: number; hits: number } {
+    let hits = 0;
+    for (const entry of cacheStore.values()) {
+      hits += entry.hits;
+    }
+    return { entries: cacheStore.size, hits };
+  }
+
+  /**
+   * Hash decoded image bytes, so data URL and bare base64 forms match
+   */
+  private static hashImage(imageData: string): string {
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+    return createHash('sha256')
+      .update(Buffer.from(base64Data, 'base64'))
+      .digest('hex');
+  }
+
+  /**
+   * Normalize a value so equivalent options hash identically: object keys are
+   * sorted, strings trimmed, and empty values dropped
+   */
+  private static normalize(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return value.trim();
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .map(item => this.normalize(item))
+        .filter(item => item !== undefined && item !== '');
+    }
+
+    if (value && typeof value === 'object') {
+      const normalized: Record<string, unknown> = {};
+      for (const key of Object.keys(value).sort()) {
+        const item = this.normalize((value as Record<string, unknown>)[key]);
+        const isEmpty =
+          item === undefined ||
+          item === null ||
+          item === '' ||
+          (Array.isArray(item) && item.length === 0);
+        if (!isEmpty) {
+          normalized[key] = item;
+        }
+      }
+      return normalized;
+    }
+
+    return value;
+  }
+
+  /**
+   * Clean up expired entries
+   */
+  private static cleanupExpiredEntries(): void {
+    const now = Date.now();
+    for (const [key, entry] of cacheStore.entries()) {
+      if (now > entry.expiresAt) {
+        cacheStore.delete(key);
+      }
+    }
+  }
+}
+
+export default GenerationCache;
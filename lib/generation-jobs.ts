@@ -0,0 +1,235 @@
+import { JOB_CONFIG } from './constants';
+import {
+  PreviewGenerationResponse,
+  PreviewGenerationResult,
+  PreviewGenerationStage,
+} from './preview-generation';
+
+/**
+ * Generation Jobs
+ * Tracks asynchronous preview generations so clients can poll or stream
+ * progress instead of holding a request open until the model answers
+ */
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type GenerationJobStage = 'queued' | PreviewGenerationStage | 'completed' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  stage: GenerationJobStage;
+  stageHistory: Array<{ stage: GenerationJobStage; at: number }>;
+  result?: PreviewGenerationResponse;
+  error?: string;
+  httpStatus?: number;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+type JobListener = (job: GenerationJob) => void;
+
+// In-memory stores for jobs and their listeners (in production, use Redis)
+const jobStore = new Map<string, GenerationJob>();
+const jobListeners = new Map<string, Set<JobListener>>();
+
+export class GenerationJobService {
+  /**
+   * Create a new queued job
+   */
+  static create(): GenerationJob {
+    const now = Date.now();
+    const job: GenerationJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      stage: 'queued',
+      stageHistory: [{ stage: 'queued', at: now }],
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + JOB_CONFIG.EXPIRY_MS,
+    };
+
+    jobStore.set(job.id, job);
+
+    // Clean up expired jobs periodically
+    this.cleanupExpiredEntries();
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID, or null if missing or expired
+   */
+  static get(id: string): GenerationJob | null {
+    const job = jobStore.get(id);
+    if (!job) {
+      return null;
+    }
+
+    if (Date.now() > job.expiresAt) {
+      jobStore.delete(id);
+      jobListeners.delete(id);
+      return null;
+    }
+
+    return job;
+  }
+
+  /**
+   * Run a pipeline for a job, recording stages and the final result.
+   * Fails the job if it exceeds JOB_CONFIG.TIMEOUT_MS, and aborts the
+   * task's signal so the pipeline stops calling the model.
+   */
+  static async run(
+    id: string,
+    task: (
+      onStage: (stage: PreviewGenerationStage) => void,
+      signal: AbortSignal
+    ) => Promise<PreviewGenerationResult>
+  ): Promise<void> {
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      this.update(id, { status: 'running' });
+
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          const error = new Error('Generation timed out. Please try again.');
+          controller.abort(error);
+          reject(error);
+        }, JOB_CONFIG.TIMEOUT_MS);
+      });
+
+      const result = await Promise.race([
+        task((stage) => {
+          // A cancelled task may still be winding down; the job has already failed
+          if (!controller.signal.aborted) {
+            this.setStage(id, stage);
+          }
+        }, controller.signal),
+        timeout,
+      ]);
+
+      if (result.body.success) {
+        this.update(id, {
+          status: 'completed',
+          result: result.body,
+          httpStatus: result.status,
+        }, 'completed');
+      } else {
+        this.update(id, {
+          status: 'failed',
+          error: result.body.error || 'Failed to generate preview',
+          httpStatus: result.status,
+        }, 'failed');
+      }
+    } catch (error) {
+      console.error(`Generation job ${id} failed:`, error);
+      this.update(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to generate preview',
+        httpStatus: 500,
+      }, 'failed');
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to job updates; returns an unsubscribe function
+   */
+  static subscribe(id: string, listener: JobListener): () => void {
+    const listeners = jobListeners.get(id) || new Set<JobListener>();
+    listeners.add(listener);
+    jobListeners.set(id, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        jobListeners.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Check whether a job has reached a final state
+   */
+  static isFinished(job: GenerationJob): boolean {
+    return job.status === 'completed' || job.status === 'failed';
+  }
+
+  /**
+   * Get a job snapshot without the (potentially large) result payload
+   */
+  static toSummary(job: GenerationJob): Omit<GenerationJob, 'result'> {
+    return {
+      id: job.id,
+      status: job.status,
+      stage: job.stage,
+      stageHistory: job.stageHistory,
+      error: job.error,
+      httpStatus: job.httpStatus,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      expiresAt: job.expiresAt,
+    };
+  }
+
+  /**
+   * Clear all jobs (admin function)
+   */
+  static clearAll(): void {
+    jobStore.clear();
+    jobListeners.clear();
+  }
+
+  private static setStage(id: string, stage: PreviewGenerationStage): void {
+    this.update(id, {}, stage);
+  }
+
+  private static update(
+    id: string,
+    changes: Partial<GenerationJob>,
+    stage?: GenerationJobStage
+  ): void {
+    const job = jobStore.get(id);
+    if (!job) {
+      return;
+    }
+
+    const now = Date.now();
+    Object.assign(job, changes, { updatedAt: now });
+
+    if (stage && stage !== job.stage) {
+      job.stage = stage;
+      job.stageHistory.push({ stage, at: now });
+    }
+
+    jobListeners.get(id)?.forEach((listener) => {
+      try {
+        listener(job);
+      } catch (error) {
+        console.warn(`Generation job ${id} listener error:`, error);
+      }
+    });
+  }
+
+  /**
+   * Clean up expired jobs
+   */
+  private static cleanupExpiredEntries(): void {
+    const now = Date.now();
+    for (const [id, job] of jobStore.entries()) {
+      if (now > job.expiresAt) {
+        jobStore.delete(id);
+        jobListeners.delete(id);
+      }
+    }
+  }
+}
+
+export default GenerationJobService;
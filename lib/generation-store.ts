@@ -0,0 +1,121 @@
+import { SESSION_CONFIG } from './constants';
+import { PromptTemplateRef } from './prompts';
+import { PromptExperimentExposure } from './prompt-experiments';
+import { CustomizationOptions, UseCase } from '@/types';
+
+/**
+ * Generation Store
+ * Keeps the unwatermarked output of every preview generation so a purchase
+ * releases exactly the image the customer approved
+ */
+
+export interface StoredGeneration {
+  id: string;
+  imageData: string; // Unwatermarked base64 image data
+  options: CustomizationOptions;
+  useCase: UseCase;
+  model: string;
+  prompt?: string; // Prompt that produced this image
+  promptTemplate?: PromptTemplateRef; // Template and version behind the prompt, absent for raw prompts
+  experiment?: PromptExperimentExposure; // Prompt experiment variant the generation was made under
+  parentId?: string; // Generation this one was refined from
+  instruction?: string; // Refinement instruction applied to the parent
+  createdAt: number;
+  expiresAt: number;
+}
+
+// In-memory store for generations (in production, use cloud storage)
+const generationStore = new Map<string, StoredGeneration>();
+
+export class GenerationStore {
+  /**
+   * Store an unwatermarked generation and return its record
+   */
+  static save(
+    generation: Omit<StoredGeneration, 'id' | 'createdAt' | 'expiresAt'>,
+    id: string = crypto.randomUUID()
+  ): StoredGeneration {
+    const now = Date.now();
+    const entry: StoredGeneration = {
+      ...generation,
+      id,
+      createdAt: now,
+      expiresAt: now + SESSION_CONFIG.EXPIRY_MS,
+    };
+
+    generationStore.set(id, entry);
+
+    // Clean up expired entries periodically
+    this.cleanupExpiredEntries();
+
+    return entry;
+  }
+
+  /**
+   * Get a stored generation by ID, or null if missing or expired
+   */
+  static get(id: string): StoredGeneration | null {
+    const entry = generationStore.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      generationStore.delete(id);
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Check whether a generation exists and has not expired
+   */
+  static has(id: string): boolean {
+    return this.get(id) !== null;
+  }
+
+  /**
+   * Get the refinement chain ending at a generation, oldest first.
+   * Stops early if an ancestor has expired.
+   */
+  static getLineage(id: string): StoredGeneration[] {
+    const lineage: StoredGeneration[] = [];
+    let entry = this.get(id);
+
+    while (entry && lineage.length < generationStore.size) {
+      lineage.unshift(entry);
+      entry = entry.parentId ? this.get(entry.parentId) : null;
+    }
+
+    return lineage;
+  }
+
+  /**
+   * Remove a stored generation
+   */
+  static delete(id: string): boolean {
+    return generationStore.delete(id);
+  }
+
+  /**
+   * Clear all stored generations (admin function)
+   */
+  static clearAll(): void {
+    generationStore.clear();
+  }
+
+  /**
+   * Clean up expired generations
+   */
+  private static cleanupExpiredEntries(): void {
+    const now = Date.now();
+    for (const [id, entry] of generationStore.entries()) {
+      if (now > entry.expiresAt) {
+        generationStore.delete(id);
+      }
+    }
+  }
+}
+
+export default GenerationStore;
@@ -0,0 +1,200 @@
+import sharp from 'sharp';
+import { PREPROCESSING_CONFIG } from './constants';
+
+/**
+ * Image Preprocessing
+ * Normalizes uploads before they reach the model: detects the real format,
+ * applies EXIF orientation, strips metadata, converts to sRGB and downscales
+ */
+
+export type DetectedImageFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface PreprocessingResult {
+  success: boolean;
+  imageData?: string; // Base64 without data URL prefix
+  mimeType?: DetectedImageFormat;
+  dimensions?: { width: number; height: number };
+  changes: string[]; // Human-readable description of every change made
+  error?: string;
+}
+
+export class ImagePreprocessor {
+  /**
+   * Detect the image format from its magic bytes, or null if unsupported
+   */
+  static detectFormat(buffer: Buffer): DetectedImageFormat | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return 'image/jpeg';
+    }
+
+    if (
+      buffer.length >= 8 &&
+      buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    ) {
+      return 'image/png';
+    }
+
+    if (
+      buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return 'image/webp';
+    }
+
+    return null;
+  }
+
+  /**
+   * Preprocess base64 image data for the model
+   */
+  static async preprocess(
+    imageData: string,
+    declaredType?: string
+  ): Promise<PreprocessingResult> {
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+    const input = Buffer.from(base64Data, 'base64');
+    const changes: string[] = [];
+
+    const mimeType = this.detectFormat(input);
+    if (!mimeType) {
+      return {
+        success: false,
+        changes,
+        error: 'Unsupported image format. Please use JPG, PNG, or WebP.',
+      };
+    }
+
+    if (declaredType && declaredType !== mimeType) {
+      changes.push(`Image was labeled ${declaredType} but is ${mimeType}`);
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(input).metadata();
+    } catch {
+      return {
+        success: false,
+        changes,
+        error: 'Image could not be decoded. Please upload a different photo.',
+      };
+    }
+
+    if (metadata.orientation && metadata.orientation > 1) {
+      changes.push(`Applied EXIF orientation ${metadata.orientation}`);
+    }
+
+    if (metadata.exif) {
+      changes.push(
+        this.hasGpsData(metadata.exif)
+          ? 'Removed EXIF metadata, including GPS location'
+          : 'Removed EXIF metadata'
+      );
+    }
+
+    if (metadata.space && metadata.space !== 'srgb') {
+      changes.push(`Converted color space from ${metadata.space} to sRGB`);
+    } else if (metadata.icc && !this.isSrgbProfile(metadata.icc)) {
+      changes.push('Converted embedded color profile to sRGB');
+    }
+
+    // rotate() with no angle applies EXIF orientation; sharp drops all
+    // metadata on output unless asked to keep it
+    let pipeline = sharp(input)
+      .rotate()
+      .toColourspace('srgb')
+      .resize(PREPROCESSING_CONFIG.MAX_DIMENSION, PREPROCESSING_CONFIG.MAX_DIMENSION, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+
+    switch (mimeType) {
+      case 'image/png':
+        pipeline = pipeline.png();
+        break;
+      case 'image/webp':
+        pipeline = pipeline.webp({ quality: PREPROCESSING_CONFIG.QUALITY });
+        break;
+      default:
+        pipeline = pipeline.jpeg({ quality: PREPROCESSING_CONFIG.QUALITY });
+    }
+
+    let output: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      output = await pipeline.toBuffer({ resolveWithObject: true });
+    } catch {
+      return {
+        success: false,
+        changes,
+        error: 'Image could not be decoded. Please upload a different photo.',
+      };
+    }
+    const { data, info } = output;
+
+    // Orientations 5-8 swap width and height
+    const swapsAxes = (metadata.orientation || 1) >= 5;
+    const sourceWidth = (swapsAxes ? metadata.height : metadata.width) || info.width;
+    const sourceHeight = (swapsAxes ? metadata.width : metadata.height) || info.height;
+    if (info.width !== sourceWidth || info.height !== sourceHeight) {
+      changes.push(
+        `Resized from ${sourceWidth}x${sourceHeight} to ${info.width}x${info.height}`
+      );
+    }
+
+    return {
+      success: true,
+      imageData: data.toString('base64'),
+      mimeType,
+      dimensions: { width: info.width, height: info.height },
+      changes,
+    };
+  }
+
+  /**
+   * Check whether an ICC profile is already sRGB, going by its description text
+   */
+  private static isSrgbProfile(icc: Buffer): boolean {
+    return icc.toString('latin1').includes('sRGB');
+  }
+
+  /**
+   * Check a raw EXIF block for the GPS IFD pointer tag (0x8825) in IFD0.
+   * Walks the entries rather than searching for the bytes, which can turn up
+   * anywhere in offsets, thumbnails or text values.
+   */
+  private static hasGpsData(exif: Buffer): boolean {
+    // sharp returns the APP1 payload: "Exif\0\0" followed by the TIFF header
+    const tiff = exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? exif.subarray(6) : exif;
+    if (tiff.length < 8) {
+      return false;
+    }
+
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return false;
+    }
+    const littleEndian = byteOrder === 'II';
+    const readUInt16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const readUInt32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    const ifdOffset = readUInt32(4);
+    if (ifdOffset + 2 > tiff.length) {
+      return false;
+    }
+
+    const entryCount = readUInt16(ifdOffset);
+    for (let index = 0; index < entryCount; index++) {
+      const entryOffset = ifdOffset + 2 + index * 12;
+      if (entryOffset + 12 > tiff.length) {
+        break;
+      }
+      if (readUInt16(entryOffset) === 0x8825) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+export default ImagePreprocessor;
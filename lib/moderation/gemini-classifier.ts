@@ -0,0 +1,115 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import {
+  ModerationClassifier,
+  ModerationInput,
+  ModerationReason,
+  ModerationResult,
+} from './types';
+
+/**
+ * Gemini Classifier
+ * Asks a Gemini text model to screen uploads for minors, explicit content and
+ * recognizable public figures, returning structured JSON
+ */
+
+interface GeminiModerationVerdict {
+  minor: boolean;
+  explicit: boolean;
+  publicFigure: boolean;
+  confidence: number;
+}
+
+export class GeminiClassifier implements ModerationClassifier {
+  readonly name = 'gemini' as const;
+  private genAI: GoogleGenAI;
+
+  private static readonly PROMPT = `You screen photos uploaded to a professional headshot service.
+Answer for the most prominent person in the photo:
+- minor: true if they appear to be under 18
+- explicit: true if the photo contains nudity or sexual content
+- publicFigure: true if they appear to be a celebrity, politician or other well-known public figure
+- confidence: your overall confidence from 0 to 1`;
+
+  constructor(
+    private apiKey: string,
+    private model: string
+  ) {
+    this.genAI = new GoogleGenAI({
+      apiKey,
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async classify(input: ModerationInput): Promise<ModerationResult> {
+    const response = await this.genAI.models.generateContent({
+      model: this.model,
+      contents: [
+        { text: GeminiClassifier.PROMPT },
+        {
+          inlineData: {
+            mimeType: input.mimeType,
+            data: input.image.replace(/^data:image\/[a-z]+;base64,/, ''),
+          },
+        },
+      ],
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            minor: { type: Type.BOOLEAN },
+            explicit: { type: Type.BOOLEAN },
+            publicFigure: { type: Type.BOOLEAN },
+            confidence: { type: Type.NUMBER },
+          },
+          required: ['minor', 'explicit', 'publicFigure', 'confidence'],
+        },
+      },
+    });
+
+    // The model's own safety filters refusing the photo is itself a denial
+    if (response.promptFeedback?.blockReason) {
+      return {
+        decision: 'deny',
+        reasons: [{
+          category: 'explicit',
+          decision: 'deny',
+          message: 'Photo was blocked by content safety filters',
+        }],
+        classifier: this.name,
+      };
+    }
+
+    const verdict = JSON.parse(response.text || '{}') as Partial<GeminiModerationVerdict>;
+    const confidence = typeof verdict.confidence === 'number' ? verdict.confidence : undefined;
+    const reasons: ModerationReason[] = [];
+
+    if (verdict.minor) {
+      reasons.push({ category: 'minor', decision: 'deny', message: 'Photo appears to show a minor', confidence });
+    }
+    if (verdict.explicit) {
+      reasons.push({ category: 'explicit', decision: 'deny', message: 'Photo contains explicit content', confidence });
+    }
+    if (verdict.publicFigure) {
+      reasons.push({
+        category: 'public-figure',
+        decision: 'review',
+        message: 'Photo appears to show a public figure',
+        confidence,
+      });
+    }
+
+    return {
+      decision: reasons.some(reason => reason.decision === 'deny')
+        ? 'deny'
+        : reasons.length > 0 ? 'review' : 'allow',
+      reasons,
+      classifier: this.name,
+    };
+  }
+}
+
+export default GeminiClassifier;
@@ -0,0 +1,32 @@
+import { GeminiClassifier } from './gemini-classifier';
+import { RuleBasedClassifier } from './rule-based-classifier';
+import { ModerationClassifier, ModerationClassifierName } from './types';
+
+/**
+ * Moderation Classifier Factory
+ * Resolves the configured upload moderation backend
+ */
+export function createModerationClassifier(
+  name: ModerationClassifierName,
+  config: { apiKey: string; model: string }
+): ModerationClassifier {
+  switch (name) {
+    case 'rules':
+      return new RuleBasedClassifier();
+    case 'gemini':
+    default:
+      return new GeminiClassifier(config.apiKey, config.model);
+  }
+}
+
+export { GeminiClassifier, RuleBasedClassifier };
+export type { ImageFacts, ModerationRule } from './rule-based-classifier';
+export type {
+  ModerationCategory,
+  ModerationClassifier,
+  ModerationClassifierName,
+  ModerationDecision,
+  ModerationInput,
+  ModerationReason,
+  ModerationResult,
+} from './types';
@@ -0,0 +1,142 @@
+import sharp from 'sharp';
+import { MODERATION_CONFIG } from '../constants';
+import {
+  ModerationClassifier,
+  ModerationInput,
+  ModerationReason,
+  ModerationResult,
+} from './types';
+
+/**
+ * Rule-Based Classifier
+ * Local, deterministic stand-in for a moderation model, used offline and in
+ * tests. It cannot recognize minors or public figures; it only rejects
+ * unreadable files and flags likely explicit or third-party photos for review.
+ */
+
+export interface ImageFacts {
+  width: number;
+  height: number;
+  skinRatio: number; // Share of sampled pixels in a skin-tone range
+  metadataText: string; // EXIF, XMP and IPTC blocks as latin1 text
+}
+
+export type ModerationRule = (facts: ImageFacts) => ModerationReason | null;
+
+export class RuleBasedClassifier implements ModerationClassifier {
+  readonly name = 'rules' as const;
+
+  // Credits found in press and stock photos, which are rarely the uploader's own
+  private static readonly THIRD_PARTY_MARKERS = [
+    'getty images', 'shutterstock', 'alamy', 'istock', 'reuters', 'associated press',
+    'agence france-presse', 'wireimage', 'photographer:', 'all rights reserved',
+  ];
+
+  static readonly DEFAULT_RULES: ModerationRule[] = [
+    (facts) => facts.skinRatio >= MODERATION_CONFIG.SKIN_RATIO_REVIEW
+      ? {
+          category: 'explicit',
+          decision: 'review',
+          message: 'Photo shows a large area of exposed skin',
+          confidence: facts.skinRatio,
+        }
+      : null,
+    (facts) => {
+      const text = facts.metadataText.toLowerCase();
+      const marker = RuleBasedClassifier.THIRD_PARTY_MARKERS.find(entry => text.includes(entry));
+      return marker
+        ? {
+            category: 'third-party-image',
+            decision: 'review',
+            message: `Photo metadata credits a third party (${marker.replace(/:$/, '')})`,
+          }
+        : null;
+    },
+  ];
+
+  constructor(private rules: ModerationRule[] = RuleBasedClassifier.DEFAULT_RULES) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async classify(input: ModerationInput): Promise<ModerationResult> {
+    const facts = await this.getFacts(input.image);
+
+    if (!facts) {
+      return {
+        decision: 'deny',
+        reasons: [{
+          category: 'unreadable',
+          decision: 'deny',
+          message: 'Photo could not be read',
+        }],
+        classifier: this.name,
+      };
+    }
+
+    const reasons = this.rules
+      .map(rule => rule(facts))
+      .filter((reason): reason is ModerationReason => reason !== null);
+
+    return {
+      decision: reasons.some(reason => reason.decision === 'deny')
+        ? 'deny'
+        : reasons.length > 0 ? 'review' : 'allow',
+      reasons,
+      classifier: this.name,
+    };
+  }
+
+  /**
+   * Decode the image once and collect what the rules look at, or null if undecodable
+   */
+  private async getFacts(imageData: string): Promise<ImageFacts | null> {
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+    const input = Buffer.from(base64Data, 'base64');
+
+    try {
+      const metadata = await sharp(input).metadata();
+      const size = MODERATION_CONFIG.SAMPLE_SIZE;
+      const pixels = await sharp(input)
+        .rotate()
+        .resize(size, size, { fit: 'fill' })
+        .removeAlpha()
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer();
+
+      let skinPixels = 0;
+      for (let offset = 0; offset + 2 < pixels.length; offset += 3) {
+        if (this.isSkinTone(pixels[offset], pixels[offset + 1], pixels[offset + 2])) {
+          skinPixels++;
+        }
+      }
+
+      return {
+        width: metadata.width || 0,
+        height: metadata.height || 0,
+        skinRatio: skinPixels / (pixels.length / 3),
+        metadataText: [metadata.exif, metadata.xmp, metadata.iptc]
+          .filter((block): block is Buffer => !!block)
+          .map(block => block.toString('latin1'))
+          .join('\n'),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Classic RGB skin-tone rule for daylight photos
+   */
+  private isSkinTone(r: number, g: number, b: number): boolean {
+    return (
+      r > 95 && g > 40 && b > 20 &&
+      Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+      Math.abs(r - g) > 15 && r > g && r > b
+    );
+  }
+}
+
+export default RuleBasedClassifier;
@@ -0,0 +1,40 @@
+/**
+ * Moderation Classifier Types
+ * Shared contract implemented by every upload moderation backend
+ */
+
+export type ModerationClassifierName = 'gemini' | 'rules';
+
+export type ModerationDecision = 'allow' | 'review' | 'deny';
+
+export type ModerationCategory =
+  | 'minor'
+  | 'explicit'
+  | 'public-figure'
+  | 'third-party-image'
+  | 'unreadable'
+  | 'classifier-error';
+
+export interface ModerationReason {
+  category: ModerationCategory;
+  decision: Exclude<ModerationDecision, 'allow'>;
+  message: string; // Safe to show to the uploader
+  confidence?: number; // 0-1, when the classifier reports one
+}
+
+export interface ModerationInput {
+  image: string; // Base64 encoded upload, before preprocessing
+  mimeType: string;
+}
+
+export interface ModerationResult {
+  decision: ModerationDecision; // Strictest decision among the reasons
+  reasons: ModerationReason[];
+  classifier: ModerationClassifierName;
+}
+
+export interface ModerationClassifier {
+  readonly name: ModerationClassifierName;
+  classify(input: ModerationInput): Promise<ModerationResult>;
+  isConfigured(): boolean;
+}
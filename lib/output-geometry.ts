@@ -0,0 +1,68 @@
+import { CUSTOMIZATION_OPTIONS } from './constants';
+import { UseCase } from '@/types';
+
+/**
+ * Output Geometry
+ * Maps each use case to its aspect ratio and output dimensions.
+ * Free of server-only dependencies so pages can show the delivered size.
+ */
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export class OutputGeometry {
+  /**
+   * Check whether a value is a supported use case
+   */
+  static isValidUseCase(value: unknown): value is UseCase {
+    return CUSTOMIZATION_OPTIONS.USE_CASES.some(useCase => useCase.id === value);
+  }
+
+  /**
+   * Get the aspect ratio for a use case (square if unknown)
+   */
+  static getAspectRatio(useCase: UseCase): Dimensions {
+    const config = CUSTOMIZATION_OPTIONS.USE_CASES.find(entry => entry.id === useCase);
+    return config ? { ...config.aspectRatio } : { width: 1, height: 1 };
+  }
+
+  /**
+   * Get output dimensions for a use case with the given long edge
+   */
+  static getDimensions(useCase: UseCase, longEdge: number): Dimensions {
+    const { width, height } = this.getAspectRatio(useCase);
+
+    return width >= height
+      ? { width: longEdge, height: Math.round(longEdge * height / width) }
+      : { width: Math.round(longEdge * width / height), height: longEdge };
+  }
+
+  /**
+   * Get the largest dimensions with the use case's aspect ratio that fit in the source
+   */
+  static getLargestCrop(useCase: UseCase, source: Dimensions): Dimensions {
+    const { width, height } = this.getAspectRatio(useCase);
+    const scale = Math.min(source.width / width, source.height / height);
+
+    return {
+      width: Math.floor(width * scale),
+      height: Math.floor(height * scale),
+    };
+  }
+
+  /**
+   * Scale dimensions down to fit a long edge, never up
+   */
+  static limitLongEdge(source: Dimensions, longEdge: number): Dimensions {
+    const scale = Math.min(1, longEdge / Math.max(source.width, source.height));
+
+    return {
+      width: Math.round(source.width * scale),
+      height: Math.round(source.height * scale),
+    };
+  }
+}
+
+export default OutputGeometry;
@@ -0,0 +1,897 @@
+import sharp from 'sharp';
+import { aiService } from './ai-service';
+import { MetricsUtils } from './ai-utils';
+import { AIResponseHandler } from './ai-response-handler';
+import { PromptBuilder } from './prompt-builder';
+import { WatermarkService } from './watermark';
+import { ProvenanceService } from './provenance';
+import { GenerationStore } from './generation-store';
+import { OutputGeometry, Dimensions } from './output-geometry';
+import { ImagePreprocessor } from './image-preprocessing';
+import { GenerationCache } from './generation-cache';
+import { PromptPolicy } from './prompt-policy';
+import {
+  PromptExperimentAssignment,
+  PromptExperimentExposure,
+  PromptExperimentService,
+} from './prompt-experiments';
+import { ContentModerationService } from './content-moderation';
+import { ModerationResult } from './moderation';
+import { ProviderConversationTurn, ProviderImage } from './providers';
+import { PromptTemplateRef } from './prompts';
+import { env } from './env-validation';
+import { GENERATION_CONFIG, REFINE_CONFIG, UPLOAD_CONFIG } from './constants';
+import { UploadedImage, CustomizationOptions, UseCase } from '@/types';
+
+/**
+ * Preview Generation Pipeline
+ * Validates, generates, post-processes and watermarks a preview. Shared by the
+ * synchronous preview route and asynchronous generation jobs.
+ */
+
+export interface SerializedImage {
+  id: string;
+  preview: string;
+  size: number;
+  type: string;
+  dimensions: {
+    width: number;
+    height: number;
+  };
+  uploadedAt: string; // ISO string for serialization
+  base64Data: string; // Pre-converted base64 data
+}
+
+export interface PreviewGenerationRequest {
+  image: SerializedImage; // Photo that is transformed
+  referenceImages?: SerializedImage[]; // More photos of the same person, up to UPLOAD_CONFIG.MAX_FILES in total
+  backgroundImage?: SerializedImage; // Required when options.background is 'custom'
+  options: CustomizationOptions;
+  prompt?: string;
+  useCase?: UseCase; // Selects the prompt and output aspect ratio, defaults to 'general'
+  candidateCount?: number; // 1 to GENERATION_CONFIG.MAX_CANDIDATES, defaults to 1
+  newVariation?: boolean; // Skip the result cache and generate fresh candidates
+}
+
+export interface PreviewRefinementRequest {
+  generationId: string; // Version to refine
+  instruction: string; // Short edit such as "darker suit"
+}
+
+export interface PreviewVersion {
+  generationId: string;
+  version: number; // 1 is the original generation
+  instruction?: string; // Edit that produced this version
+  createdAt: number;
+}
+
+export interface PreviewCandidate {
+  generationId: string;
+  previewUrl: string;
+  imageData: string;
+  metadata: {
+    generationTime: number;
+    cost: number;
+    dimensions: { width: number; height: number };
+    quality: 'high' | 'medium' | 'low';
+    watermarked: boolean;
+    promptTemplate?: PromptTemplateRef; // Absent when a trusted caller supplied the prompt
+  };
+  warnings?: string[];
+}
+
+export interface PreviewGenerationResponse {
+  success: boolean;
+  generationId?: string;
+  previewUrl?: string;
+  imageData?: string;
+  metadata?: PreviewCandidate['metadata'];
+  candidates?: PreviewCandidate[];
+  error?: string;
+  warnings?: string[];
+  cached?: boolean; // True when served from the result cache without calling the model
+  moderation?: Pick<ModerationResult, 'decision' | 'reasons'>; // Set when an upload is denied
+  versions?: PreviewVersion[]; // Refinement chain ending at this generation, oldest first
+}
+
+export interface PreviewGenerationContext {
+  allowPromptOverride?: boolean; // Trusted callers only, see PromptPolicy.isTrustedRequest()
+  sessionId?: string; // Assigns the prompt experiment variant, see PromptExperimentService
+  signal?: AbortSignal; // Cancels the run, e.g. when its job times out
+}
+
+export type PreviewGenerationStage = 'validating' | 'generating' | 'post-processing' | 'watermarking';
+
+export interface PreviewGenerationResult {
+  status: number;
+  body: PreviewGenerationResponse;
+}
+
+type ResolvedPrompt =
+  | {
+      success: true;
+      prompt: string;
+      template?: PromptTemplateRef; // Absent for a trusted caller's raw prompt
+      assignment?: PromptExperimentAssignment; // Set when the prompt came from an experiment variant
+      options: CustomizationOptions;
+      warnings: string[];
+    }
+  | { success: false; error: string };
+
+interface CandidateRefinement {
+  parentId: string;
+  instruction: string;
+  history: ProviderConversationTurn[];
+}
+
+interface CandidateExtras {
+  promptTemplate?: PromptTemplateRef; // Template that produced the prompt
+  experiment?: PromptExperimentExposure;
+  referenceImages?: ProviderImage[]; // Preprocessed identity references
+  backgroundImage?: ProviderImage; // Preprocessed custom background
+  refinement?: CandidateRefinement;
+  signal?: AbortSignal; // Skips or abandons the candidate once aborted
+}
+
+type CandidateOutcome =
+  | { success: true; candidate: PreviewCandidate }
+  | { success: false; error: string; errorCode?: string };
+
+export class PreviewGenerationService {
+  static readonly STAGES: PreviewGenerationStage[] = [
+    'validating',
+    'generating',
+    'post-processing',
+    'watermarking',
+  ];
+
+  /**
+   * Get a cached response for an identical earlier request, or null on a miss,
+   * an invalid request, or when the caller asked for a new variation
+   */
+  static getCachedResult(
+    body: PreviewGenerationRequest,
+    context: PreviewGenerationContext = {}
+  ): PreviewGenerationResponse | null {
+    if (body?.newVariation) {
+      return null;
+    }
+
+    try {
+      const key = this.getCacheKey(body, context);
+      const cached = key ? GenerationCache.get(key) : null;
+
+      return cached ? { ...cached, cached: true } : null;
+    } catch {
+      // Options the prompt builder rejects are reported by run() as a validation error
+      return null;
+    }
+  }
+
+  /**
+   * Screen the uploads (photos, then any custom background) before generation.
+   * Returns a failure result for an upload that is denied or held for review,
+   * or null to continue; malformed requests are left to run().
+   */
+  static async moderateUpload(body: PreviewGenerationRequest): Promise<PreviewGenerationResult | null> {
+    const uploads: Array<{ label: string; image?: SerializedImage }> = [
+      { label: 'This photo', image: body?.image },
+      ...(Array.isArray(body?.referenceImages) ? body.referenceImages : []).map((image, index) => ({
+        label: `Reference photo ${index + 1}`,
+        image,
+      })),
+      { label: 'This background', image: body?.options?.background === 'custom' ? body.backgroundImage : undefined },
+    ];
+
+    for (const { label, image } of uploads) {
+      if (!image?.base64Data || !image.type) {
+        continue;
+      }
+
+      const moderation = await ContentModerationService.moderate({
+        image: image.base64Data,
+        mimeType: image.type,
+      });
+
+      // Review decisions (public figures, third-party credits, classifier
+      // errors) stay logged for a moderator and are not generated meanwhile
+      if (moderation.decision !== 'allow') {
+        const reasons = moderation.reasons.map(reason => reason.message).join('; ');
+        return {
+          status: 400,
+          body: {
+            success: false,
+            error: moderation.decision === 'deny'
+              ? `${label} can't be used: ${reasons}`
+              : `${label} needs a manual review before it can be used: ${reasons}. Please try a different photo or contact support.`,
+            moderation: { decision: moderation.decision, reasons: moderation.reasons },
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run the preview pipeline, reporting each stage as it starts. Generates
+   * `candidateCount` watermarked candidates, each stored under its own ID.
+   * Successful results are cached for getCachedResult().
+   */
+  static async run(
+    body: PreviewGenerationRequest,
+    onStage: (stage: PreviewGenerationStage) => void = () => {},
+    context: PreviewGenerationContext = {}
+  ): Promise<PreviewGenerationResult> {
+    const {
+      image,
+      referenceImages = [],
+      backgroundImage,
+      options,
+      prompt,
+      candidateCount = 1,
+      useCase = 'general',
+    } = body || {};
+
+    onStage('validating');
+
+    // Validate request
+    if (!image || !options) {
+      return this.failure(400, 'Missing required fields: image and options are required');
+    }
+
+    // Validate image data
+    if (!image.base64Data || !image.id || !image.type) {
+      return this.failure(400, 'Invalid image data: missing required fields');
+    }
+
+    // Validate reference photos
+    if (!Array.isArray(referenceImages) || referenceImages.length > UPLOAD_CONFIG.MAX_FILES - 1) {
+      return this.failure(
+        400,
+        `Invalid referenceImages: at most ${UPLOAD_CONFIG.MAX_FILES} photos can be used in total`
+      );
+    }
+
+    const incompleteReference = referenceImages.findIndex(reference => !reference?.base64Data || !reference.type);
+    if (incompleteReference !== -1) {
+      return this.failure(400, `Invalid reference photo ${incompleteReference + 1}: missing required fields`);
+    }
+
+    // Validate options
+    if (!options.background || !options.style) {
+      return this.failure(400, 'Invalid options: background and style are required');
+    }
+
+    // Validate custom background
+    const useBackgroundImage = options.background === 'custom';
+    if (useBackgroundImage && (!backgroundImage?.base64Data || !backgroundImage.type)) {
+      return this.failure(400, 'Invalid background image: a custom background requires backgroundImage');
+    }
+
+    // Validate use case
+    if (!OutputGeometry.isValidUseCase(useCase)) {
+      return this.failure(400, `Invalid useCase: ${useCase}`);
+    }
+
+    // Validate candidate count
+    if (
+      !Number.isInteger(candidateCount) ||
+      candidateCount < 1 ||
+      candidateCount > GENERATION_CONFIG.MAX_CANDIDATES
+    ) {
+      return this.failure(
+        400,
+        `Invalid candidateCount: must be an integer between 1 and ${GENERATION_CONFIG.MAX_CANDIDATES}`
+      );
+    }
+
+    // Validate prompt
+    const promptValidation = PromptBuilder.validateContext({
+      style: options.style || 'professional',
+      background: options.background || 'office',
+      industry: options.industry || 'general',
+      mood: options.mood,
+      lighting: options.lighting,
+      composition: options.composition,
+      wardrobe: options.wardrobe,
+    });
+
+    if (!promptValidation.isValid) {
+      return this.failure(400, `Invalid prompt context: ${promptValidation.errors.join(', ')}`);
+    }
+
+    // Apply the prompt policy and build the detailed prompt tailored to the use case
+    const resolved = this.resolvePrompt(options, useCase, prompt, context, 1 + referenceImages.length);
+    if (!resolved.success) {
+      return this.failure(400, resolved.error);
+    }
+    const { prompt: finalPrompt, template: promptTemplate, options: sanitizedOptions } = resolved;
+    const experiment = resolved.assignment ? PromptExperimentService.expose(resolved.assignment) : undefined;
+
+    // Normalize the upload (format, orientation, metadata, color, size) once for all candidates
+    const preprocessed = await ImagePreprocessor.preprocess(image.base64Data, image.type);
+    if (!preprocessed.success || !preprocessed.imageData || !preprocessed.mimeType) {
+      return this.failure(400, preprocessed.error || 'Invalid image data');
+    }
+
+    // Reference photos and the background go through the same normalization
+    const preprocessedReferences: ProviderImage[] = [];
+    for (const [index, reference] of referenceImages.entries()) {
+      const result = await ImagePreprocessor.preprocess(reference.base64Data, reference.type);
+      if (!result.success || !result.imageData || !result.mimeType) {
+        return this.failure(400, `Invalid reference photo ${index + 1}: ${result.error || 'could not be processed'}`);
+      }
+      preprocessedReferences.push({ data: result.imageData, mimeType: result.mimeType });
+    }
+
+    let preprocessedBackground: ProviderImage | undefined;
+    if (useBackgroundImage && backgroundImage) {
+      const result = await ImagePreprocessor.preprocess(backgroundImage.base64Data, backgroundImage.type);
+      if (!result.success || !result.imageData || !result.mimeType) {
+        return this.failure(400, `Invalid background image: ${result.error || 'could not be processed'}`);
+      }
+      preprocessedBackground = { data: result.imageData, mimeType: result.mimeType };
+    }
+
+    // Convert the serialized image back to UploadedImage format for AI service
+    const uploadedImage: UploadedImage = {
+      id: image.id,
+      file: new File([], 'image.jpg', { type: preprocessed.mimeType }), // Dummy file - we'll use base64Data
+      preview: image.preview,
+      size: Buffer.byteLength(preprocessed.imageData, 'base64'),
+      type: preprocessed.mimeType,
+      dimensions: preprocessed.dimensions || image.dimensions,
+      uploadedAt: new Date(image.uploadedAt),
+      base64Data: preprocessed.imageData,
+    };
+
+    // Candidates run concurrently, so only report a stage once the first one reaches it
+    let currentStage = 0;
+    const reportStage = (stage: PreviewGenerationStage) => {
+      const index = this.STAGES.indexOf(stage);
+      if (index > currentStage) {
+        currentStage = index;
+        onStage(stage);
+      }
+    };
+
+    const outcomes = await this.mapWithConcurrency(
+      Array.from({ length: candidateCount }, (_, index) => index),
+      GENERATION_CONFIG.CANDIDATE_CONCURRENCY,
+      () => this.generateCandidate(uploadedImage, sanitizedOptions, useCase, finalPrompt, reportStage, {
+        promptTemplate,
+        experiment,
+        referenceImages: preprocessedReferences,
+        backgroundImage: preprocessedBackground,
+        signal: context.signal,
+      })
+    );
+
+    const candidates = outcomes
+      .filter((outcome): outcome is Extract<CandidateOutcome, { success: true }> => outcome.success)
+      .map(outcome => outcome.candidate);
+    const failures = outcomes
+      .filter((outcome): outcome is Extract<CandidateOutcome, { success: false }> => !outcome.success);
+    const errors = failures.map(outcome => outcome.error);
+
+    if (experiment) {
+      PromptExperimentService.recordPreview(experiment, {
+        success: candidates.length > 0,
+        candidates: candidates.length,
+        candidatesWithWarnings: candidates.filter(candidate => candidate.warnings?.length).length,
+      });
+    }
+
+    if (candidates.length === 0) {
+      // Open circuits mean the service is degraded, not that the request was bad
+      const status = failures.every(outcome => outcome.errorCode === 'CIRCUIT_OPEN') ? 503 : 500;
+      return this.failure(status, errors[0] || 'Failed to generate preview');
+    }
+
+    const warnings = Array.from(new Set([
+      ...preprocessed.changes,
+      ...resolved.warnings,
+      ...candidates.flatMap(candidate => candidate.warnings || []),
+    ]));
+    if (errors.length > 0) {
+      warnings.push(`${errors.length} of ${candidateCount} candidates failed to generate`);
+    }
+
+    // Top-level fields mirror the first candidate for single-preview clients
+    const [first] = candidates;
+    const response: PreviewGenerationResponse = {
+      success: true,
+      generationId: first.generationId,
+      previewUrl: first.previewUrl,
+      imageData: first.imageData,
+      metadata: first.metadata,
+      candidates,
+      warnings,
+    };
+
+    // Only cache complete results so a retry can fill in failed candidates
+    const cacheKey = this.getCacheKey(body, context);
+    if (cacheKey && errors.length === 0) {
+      GenerationCache.set(cacheKey, response);
+    }
+
+    return { status: 200, body: response };
+  }
+
+  /**
+   * Refine a stored generation with a follow-up instruction. Replays the
+   * generation's edit conversation and stores the result as a new version.
+   */
+  static async refine(body: PreviewRefinementRequest): Promise<PreviewGenerationResult> {
+    const { generationId, instruction } = body || {};
+
+    if (!generationId || typeof generationId !== 'string') {
+      return this.failure(400, 'Missing required field: generationId');
+    }
+
+    const policy = PromptPolicy.enforceInstruction(instruction);
+    if (!policy.success || !policy.instruction) {
+      return this.failure(400, policy.error || 'Invalid instruction');
+    }
+
+    const lineage = GenerationStore.getLineage(generationId);
+    const source = lineage[lineage.length - 1];
+    if (!source) {
+      return this.failure(404, 'Generation not found or expired');
+    }
+
+    if (lineage.length >= REFINE_CONFIG.MAX_VERSIONS) {
+      return this.failure(
+        400,
+        `Refinement limit reached: at most ${REFINE_CONFIG.MAX_VERSIONS} versions per portrait`
+      );
+    }
+
+    const { text: prompt, template: promptTemplate } = PromptBuilder.renderRefinementPrompt(policy.instruction);
+    const promptError = PromptPolicy.validateFinalPrompt(prompt);
+    if (promptError) {
+      return this.failure(400, promptError);
+    }
+
+    const sourceBuffer = Buffer.from(source.imageData, 'base64');
+    const sourceType = ImagePreprocessor.detectFormat(sourceBuffer) || 'image/png';
+    const sourceMetadata = await sharp(sourceBuffer).metadata();
+
+    const sourceImage: UploadedImage = {
+      id: source.id,
+      file: new File([], 'image.png', { type: sourceType }), // Dummy file - we'll use base64Data
+      preview: '',
+      size: sourceBuffer.length,
+      type: sourceType,
+      dimensions: { width: sourceMetadata.width || 0, height: sourceMetadata.height || 0 },
+      uploadedAt: new Date(source.createdAt),
+      base64Data: source.imageData,
+    };
+
+    const outcome = await this.generateCandidate(
+      sourceImage,
+      source.options,
+      source.useCase,
+      prompt,
+      () => {},
+      {
+        promptTemplate,
+        experiment: source.experiment, // Versions count toward the original's variant
+        refinement: {
+          parentId: source.id,
+          instruction: policy.instruction,
+          history: this.buildEditHistory(lineage),
+        },
+      }
+    );
+
+    if (!outcome.success) {
+      return this.failure(outcome.errorCode === 'CIRCUIT_OPEN' ? 503 : 500, outcome.error);
+    }
+
+    const { candidate } = outcome;
+    const warnings = [...policy.warnings, ...(candidate.warnings || [])];
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        generationId: candidate.generationId,
+        previewUrl: candidate.previewUrl,
+        imageData: candidate.imageData,
+        metadata: candidate.metadata,
+        candidates: [candidate],
+        versions: GenerationStore.getLineage(candidate.generationId).map((entry, index) => ({
+          generationId: entry.id,
+          version: index + 1,
+          instruction: entry.instruction,
+          createdAt: entry.createdAt,
+        })),
+        warnings: warnings.length > 0 ? warnings : undefined,
+      },
+    };
+  }
+
+  /**
+   * Rebuild the edit conversation for a refinement chain: the original prompt,
+   * then each output and the instruction that followed it. Only the most
+   * recent outputs are replayed as images to bound the request size.
+   */
+  private static buildEditHistory(
+    lineage: Array<{ imageData: string; prompt?: string; instruction?: string }>
+  ): ProviderConversationTurn[] {
+    const [original] = lineage;
+    const history: ProviderConversationTurn[] = [{
+      role: 'user',
+      text: original.prompt || 'Transform this photo into a high-quality professional portrait.',
+    }];
+
+    lineage.forEach((version, index) => {
+      if (index > 0) {
+        history.push({ role: 'user', text: PromptBuilder.buildRefinementPrompt(version.instruction || '') });
+      }
+
+      const replayImage = index >= lineage.length - REFINE_CONFIG.HISTORY_IMAGES;
+      const data = version.imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+      history.push(replayImage
+        ? {
+            role: 'model',
+            image: {
+              data,
+              mimeType: ImagePreprocessor.detectFormat(Buffer.from(data, 'base64')) || 'image/png',
+            },
+          }
+        : { role: 'model', text: '(earlier version omitted)' });
+    });
+
+    return history;
+  }
+
+  /**
+   * Build the cache key for a request, or null if it is too malformed to run
+   */
+  private static getCacheKey(
+    body: PreviewGenerationRequest,
+    context: PreviewGenerationContext
+  ): string | null {
+    const {
+      image,
+      referenceImages = [],
+      backgroundImage,
+      options,
+      prompt,
+      candidateCount = 1,
+      useCase = 'general',
+    } = body || {};
+
+    if (!image?.base64Data || !options || !OutputGeometry.isValidUseCase(useCase)) {
+      return null;
+    }
+
+    if (!Array.isArray(referenceImages) || referenceImages.some(reference => !reference?.base64Data)) {
+      return null;
+    }
+
+    const useBackgroundImage = options.background === 'custom';
+    if (useBackgroundImage && !backgroundImage?.base64Data) {
+      return null;
+    }
+
+    const resolved = this.resolvePrompt(options, useCase, prompt, context, 1 + referenceImages.length);
+    if (!resolved.success) {
+      return null;
+    }
+
+    return GenerationCache.createKey({
+      imageData: image.base64Data,
+      referenceImageData: referenceImages.map(reference => reference.base64Data),
+      backgroundImageData: useBackgroundImage ? backgroundImage?.base64Data : undefined,
+      options: resolved.options,
+      prompt: resolved.prompt,
+      useCase,
+      candidateCount,
+    });
+  }
+
+  /**
+   * Enforce the prompt policy, then use the trusted caller's prompt or build
+   * one tailored to the use case from the sanitized options, in the session's
+   * experiment variant
+   */
+  private static resolvePrompt(
+    options: CustomizationOptions,
+    useCase: UseCase,
+    prompt: string | undefined,
+    context: PreviewGenerationContext,
+    photoCount: number
+  ): ResolvedPrompt {
+    const policy = PromptPolicy.enforce(
+      { prompt, additionalRequirements: options.additionalRequirements },
+      { allowPromptOverride: context.allowPromptOverride }
+    );
+
+    if (!policy.success) {
+      return { success: false, error: policy.error || 'Prompt rejected by content policy' };
+    }
+
+    const sanitizedOptions: CustomizationOptions = {
+      ...options,
+      additionalRequirements: policy.additionalRequirements.length > 0
+        ? policy.additionalRequirements
+        : undefined,
+    };
+
+    // A trusted caller's raw prompt bypasses the template registry and experiments
+    const assignment = !policy.prompt && context.sessionId
+      ? PromptExperimentService.assign(context.sessionId)
+      : undefined;
+    const rendered = policy.prompt ? null : PromptBuilder.renderPromptForUseCase(useCase, {
+      style: sanitizedOptions.style,
+      background: sanitizedOptions.background,
+      industry: sanitizedOptions.industry,
+      mood: sanitizedOptions.mood,
+      lighting: sanitizedOptions.lighting,
+      composition: sanitizedOptions.composition,
+      wardrobe: sanitizedOptions.wardrobe,
+      additionalRequirements: sanitizedOptions.additionalRequirements,
+      referencePhotos: photoCount,
+    }, assignment?.variant);
+    const finalPrompt = rendered ? rendered.text : policy.prompt || '';
+
+    const promptError = PromptPolicy.validateFinalPrompt(finalPrompt);
+    if (promptError) {
+      return { success: false, error: promptError };
+    }
+
+    return {
+      success: true,
+      prompt: finalPrompt,
+      template: rendered?.template,
+      assignment,
+      options: sanitizedOptions,
+      warnings: policy.warnings,
+    };
+  }
+
+  /**
+   * Generate, post-process, store and watermark a single candidate
+   */
+  private static async generateCandidate(
+    uploadedImage: UploadedImage,
+    options: CustomizationOptions,
+    useCase: UseCase,
+    finalPrompt: string,
+    onStage: (stage: PreviewGenerationStage) => void,
+    extras: CandidateExtras = {}
+  ): Promise<CandidateOutcome> {
+    const { promptTemplate, experiment, referenceImages, backgroundImage, refinement, signal } = extras;
+    const startTime = Date.now();
+
+    try {
+      // Candidates still queued when the run is cancelled never reach the model
+      signal?.throwIfAborted();
+
+      onStage('generating');
+
+      // Generate portrait using AI service
+      const generationResult = await aiService.generatePortrait({
+        image: uploadedImage,
+        options,
+        size: 'preview',
+        prompt: finalPrompt,
+        referenceImages,
+        backgroundImage,
+        history: refinement?.history,
+        signal,
+      });
+
+      if (!generationResult.success || !generationResult.imageData) {
+        // Record the failed attempts; failed calls are not billed
+        MetricsUtils.logMetrics(MetricsUtils.createMetrics(
+          startTime,
+          Date.now(),
+          env.getAIConfig().model,
+          'preview',
+          { cost: 0, attempts: generationResult.attempts, promptTemplate }
+        ));
+        return {
+          success: false,
+          error: generationResult.error || 'Failed to generate preview',
+          errorCode: generationResult.errorCode,
+        };
+      }
+
+      onStage('post-processing');
+
+      // Process and validate the generated image
+      const metrics = MetricsUtils.createMetrics(
+        startTime,
+        Date.now(),
+        generationResult.model || env.getAIConfig().model,
+        'preview',
+        {
+          tokensUsed: generationResult.tokensUsed,
+          cost: generationResult.cost,
+          attempts: generationResult.attempts,
+          promptTemplate,
+        }
+      );
+
+      const processedResponse = await AIResponseHandler.processResponse(
+        generationResult,
+        metrics,
+        {
+          minWidth: GENERATION_CONFIG.PREVIEW_SIZE,
+          minHeight: GENERATION_CONFIG.PREVIEW_SIZE,
+          maxFileSize: 5 * 1024 * 1024, // 5MB max for preview
+          allowedFormats: ['image/jpeg', 'image/png', 'image/webp'],
+        }
+      );
+
+      if (!processedResponse.success || !processedResponse.imageData) {
+        return { success: false, error: processedResponse.error || 'Failed to process generated image' };
+      }
+
+      // Crop to the use case's aspect ratio at the generated resolution
+      const warnings = [...(processedResponse.warnings || [])];
+      let imageData = processedResponse.imageData;
+      let dimensions = processedResponse.metadata?.dimensions;
+
+      try {
+        const cropped = await this.cropToUseCase(imageData, useCase);
+        imageData = cropped.imageData;
+        dimensions = cropped.dimensions;
+      } catch (error) {
+        console.warn('Use case crop failed, using generated framing:', error);
+        warnings.push(`Could not crop the portrait for ${useCase}; using the generated framing`);
+      }
+
+      // Keep the unwatermarked original so a purchase releases this exact image
+      const storedGeneration = GenerationStore.save({
+        imageData,
+        options,
+        useCase,
+        model: metrics.model,
+        prompt: finalPrompt,
+        promptTemplate,
+        experiment,
+        parentId: refinement?.parentId,
+        instruction: refinement?.instruction,
+      });
+
+      onStage('watermarking');
+
+      // Add watermark to the preview
+      const watermarkResult = await WatermarkService.addPreviewWatermark(imageData);
+
+      if (!watermarkResult.success) {
+        console.warn('Watermarking failed, using original image:', watermarkResult.error);
+      }
+
+      // Label the preview as AI-generated
+      const provenance = ProvenanceService.embed(watermarkResult.imageData || imageData, {
+        generationId: storedGeneration.id,
+        kind: 'preview',
+        model: metrics.model,
+        actions: watermarkResult.success ? ['c2pa.watermarked'] : [],
+      });
+
+      if (!provenance.success) {
+        console.warn('Provenance metadata failed, delivering without it:', provenance.error);
+      }
+
+      const watermarkedImageData = provenance.imageData || watermarkResult.imageData || imageData;
+
+      // Log generation metrics
+      MetricsUtils.logMetrics(metrics);
+
+      return {
+        success: true,
+        candidate: {
+          generationId: storedGeneration.id,
+          // Create preview URL (in production, this would be stored in cloud storage)
+          previewUrl: this.createPreviewUrl(watermarkedImageData),
+          imageData: watermarkedImageData,
+          metadata: {
+            generationTime: metrics.duration,
+            cost: metrics.cost,
+            dimensions: dimensions || {
+              width: GENERATION_CONFIG.PREVIEW_SIZE,
+              height: GENERATION_CONFIG.PREVIEW_SIZE
+            },
+            quality: processedResponse.metadata?.quality || 'medium',
+            watermarked: true,
+            promptTemplate,
+          },
+          warnings: warnings.length > 0 ? warnings : undefined,
+        },
+      };
+    } catch (error) {
+      console.error('Preview candidate generation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate preview',
+      };
+    }
+  }
+
+  /**
+   * Crop base64 image data to the largest use-case-shaped region at the
+   * generated resolution, focusing on the subject. Returns a lossless PNG.
+   */
+  private static async cropToUseCase(
+    imageData: string,
+    useCase: UseCase
+  ): Promise<{ imageData: string; dimensions: Dimensions }> {
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+    const input = Buffer.from(base64Data, 'base64');
+    const metadata = await sharp(input).metadata();
+
+    const dimensions = OutputGeometry.getLargestCrop(useCase, {
+      width: metadata.width || 0,
+      height: metadata.height || 0,
+    });
+
+    const buffer = await sharp(input)
+      .resize(dimensions.width, dimensions.height, {
+        fit: 'cover',
+        position: 'attention',
+      })
+      .png()
+      .toBuffer();
+
+    return {
+      imageData: buffer.toString('base64'),
+      dimensions,
+    };
+  }
+
+  /**
+   * Map items through an async worker with at most `limit` in flight,
+   * preserving input order in the results
+   */
+  private static async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await worker(items[index]);
+      }
+    });
+
+    await Promise.all(runners);
+    return results;
+  }
+
+  private static failure(status: number, error: string): PreviewGenerationResult {
+    return {
+      status,
+      body: {
+        success: false,
+        error,
+      },
+    };
+  }
+
+  /**
+   * Create preview URL (placeholder - in production, store in cloud storage)
+   */
+  private static createPreviewUrl(imageData: string): string {
+    // In production, this would upload to S3/Cloudinary and return the URL
+    // For now, we'll return a data URL
+    // Check if imageData already has data URL prefix
+    if (imageData.startsWith('data:')) {
+      return imageData;
+    }
+    return `data:image/png;base64,${imageData}`;
+  }
+}
+
+export default PreviewGenerationService;
@@ -1,8 +1,12 @@
-import { CustomizationOptions } from '@/types';
+import { CustomizationOptions, UseCase, WardrobeOptions } from '@/types';
+import { OutputGeometry } from './output-geometry';
+import { CUSTOMIZATION_OPTIONS, WARDROBE_CONFIG } from './constants';
+import { PromptTemplateRegistry, RenderedPrompt } from './prompts';
 
 /**
  * Advanced Prompt Builder for AI Portrait Generation
- * Provides sophisticated prompt engineering for different portrait styles
+ * Turns customization options into template variables and renders the
+ * versioned templates in lib/prompts
  */
 
 export interface PromptContext {
@@ -10,9 +14,11 @@ export interface PromptContext {
   background: string;
   industry?: string;
   mood?: string;
-  lighting?: string;
-  composition?: string;
+  lighting?: string; // CustomizationOptions['lighting'], or 'professional' for the background's own
+  composition?: string; // CustomizationOptions['composition']
+  wardrobe?: WardrobeOptions;
   additionalRequirements?: string[];
+  referencePhotos?: number; // Photos of the person sent with the prompt, defaults to 1
 }
 
 export interface PromptVariations {
@@ -22,7 +28,17 @@ export interface PromptVariations {
   creative: string;
 }
 
+export type PromptVariation = keyof PromptVariations;
+
 export class PromptBuilder {
+  // Registry templates behind each variation
+  private static readonly VARIATION_TEMPLATES: Record<PromptVariation, string> = {
+    basic: 'portrait-basic',
+    detailed: 'portrait-detailed',
+    technical: 'portrait-technical',
+    creative: 'portrait-creative',
+  };
+
   private static readonly STYLE_DESCRIPTIONS = {
     professional: {
       attire: 'professional business attire',
@@ -75,8 +91,83 @@ export class PromptBuilder {
       lighting: 'professional conference room lighting',
       mood: 'collaborative, professional, meeting-ready',
     },
+    custom: {
+      setting: 'the background photo provided as the last image',
+      elements: 'the scene exactly as photographed, without added or removed objects',
+      lighting: 'lighting matched to the background photo',
+      mood: 'natural, as if photographed on location',
+    },
+  };
+
+  private static readonly LIGHTING_DESCRIPTIONS = {
+    rembrandt: 'Rembrandt lighting, with the key light above and 45 degrees to one side leaving a small triangle of light on the shadow-side cheek',
+    butterfly: 'butterfly lighting, with the key light high and directly in front casting a small shadow under the nose',
+    'high-key': 'high-key lighting, bright and even with low contrast, minimal shadows and a light overall tone',
+    'low-key': 'low-key lighting, a single directional light with deep shadows and a dark overall tone',
+    'natural-window': 'soft natural window light from one side with gentle falloff across the face',
+  };
+
+  private static readonly COMPOSITION_DESCRIPTIONS = {
+    'tight-headshot': {
+      framing: 'tight headshot from just below the chin to the top of the head, the face filling most of the frame',
+      subject: 'face',
+    },
+    'head-and-shoulders': {
+      framing: 'head-and-shoulders framing from mid-chest up',
+      subject: 'head and shoulders',
+    },
+    'half-body': {
+      framing: 'half-body framing from the waist up, with the arms and hands relaxed and natural',
+      subject: 'upper body',
+    },
+  };
+
+  private static readonly GARMENT_DESCRIPTIONS = {
+    suit: 'a tailored business suit',
+    blazer: 'a tailored blazer over a crisp shirt or top',
+    'dress-shirt': 'a crisp collared dress shirt without a jacket',
+    blouse: 'a tailored professional blouse',
+    sweater: 'a fine-knit sweater over a collared shirt',
+    polo: 'a smart, well-fitted polo shirt',
+    scrubs: 'clean, well-fitted medical scrubs',
+    'lab-coat': 'a white lab coat over professional attire',
   };
 
+  private static readonly WARDROBE_COLORS = {
+    navy: 'navy blue',
+    charcoal: 'charcoal gray',
+    black: 'black',
+    gray: 'mid gray',
+    white: 'white',
+    'light-blue': 'light blue',
+    beige: 'beige',
+    burgundy: 'burgundy',
+    teal: 'teal',
+  };
+
+  private static readonly ACCESSORY_DESCRIPTIONS = {
+    tie: 'a tie',
+    'bow-tie': 'a bow tie',
+    'pocket-square': 'a folded pocket square',
+    'name-badge': 'a plain name badge with no readable text',
+    stethoscope: 'a stethoscope around the neck',
+    jewelry: 'minimal, understated jewelry',
+  };
+
+  private static readonly GROOMING_INSTRUCTIONS = {
+    glasses: {
+      keep: "Keep the person's glasses exactly as in the photo, reducing lens glare",
+      remove: "Remove the person's glasses and show their eyes naturally, without marks on the nose",
+    },
+    hair: {
+      'as-is': 'Keep the hairstyle exactly as in the photo',
+      tidy: 'Tidy the hair by smoothing flyaways and stray strands, keeping the hairstyle, length and color',
+    },
+  };
+
+  // Garments worn with an open collar unless a tie is chosen
+  private static readonly COLLARED_GARMENTS = ['suit', 'blazer', 'dress-shirt'];
+
   private static readonly INDUSTRY_CONTEXTS = {
     technology: 'tech industry professional, innovative, modern',
     finance: 'financial services professional, trustworthy, analytical',
@@ -96,21 +187,35 @@ export class PromptBuilder {
     options: CustomizationOptions,
     context: Partial<PromptContext> = {}
   ): PromptVariations {
-    const fullContext = this.buildContext(options, context);
-    
+    const variables = this.buildVariables(this.buildContext(options, context));
+    const render = (variation: PromptVariation) =>
+      PromptTemplateRegistry.render(this.VARIATION_TEMPLATES[variation], variables).text;
+
     return {
-      basic: this.buildBasicPrompt(fullContext),
-      detailed: this.buildDetailedPrompt(fullContext),
-      technical: this.buildTechnicalPrompt(fullContext),
-      creative: this.buildCreativePrompt(fullContext),
+      basic: render('basic'),
+      detailed: render('detailed'),
+      technical: render('technical'),
+      creative: render('creative'),
     };
   }
 
+  /**
+   * Render any registered template from customization options, e.g. the
+   * standalone 'professional' style prompt
+   */
+  static renderTemplate(
+    templateId: string,
+    options: Partial<CustomizationOptions>,
+    context: Partial<PromptContext> = {}
+  ): RenderedPrompt {
+    return PromptTemplateRegistry.render(templateId, this.buildVariables(this.buildContext(options, context)));
+  }
+
   /**
    * Build context from options and additional parameters
    */
   private static buildContext(
-    options: CustomizationOptions,
+    options: Partial<CustomizationOptions>,
     context: Partial<PromptContext>
   ): PromptContext {
     return {
@@ -118,149 +223,182 @@ export class PromptBuilder {
       background: options.background || 'office',
       industry: context.industry || 'general',
       mood: context.mood || 'confident',
-      lighting: context.lighting || 'professional',
-      composition: context.composition || 'head-and-shoulders',
+      lighting: context.lighting || options.lighting || 'professional',
+      composition: context.composition || options.composition || 'head-and-shoulders',
+      wardrobe: context.wardrobe,
       additionalRequirements: context.additionalRequirements || [],
+      referencePhotos: context.referencePhotos || 1,
     };
   }
 
   /**
-   * Build basic prompt for quick generation
+   * Resolve every template variable from the context. Each template uses the
+   * subset it declares.
    */
-  private static buildBasicPrompt(context: PromptContext): string {
+  private static buildVariables(context: PromptContext): Record<string, string> {
     const styleDesc = this.STYLE_DESCRIPTIONS[context.style as keyof typeof this.STYLE_DESCRIPTIONS];
     const bgDesc = this.BACKGROUND_DESCRIPTIONS[context.background as keyof typeof this.BACKGROUND_DESCRIPTIONS];
-    const industry = this.INDUSTRY_CONTEXTS[(context.industry || 'general') as keyof typeof this.INDUSTRY_CONTEXTS];
+    const industry = context.industry || 'general';
+    const attire = this.describeAttire(context);
+    const photoCount = context.referencePhotos || 1;
+
+    // Optional sections, in the order the model should weigh them
+    const sections = [
+      this.buildWardrobeInstructions(context),
+      photoCount > 1 ? this.buildIdentityInstructions(photoCount) : '',
+      context.background === 'custom' ? this.buildCompositingInstructions(photoCount) : '',
+      context.additionalRequirements && context.additionalRequirements.length > 0
+        ? `ADDITIONAL REQUIREMENTS:\n- ${context.additionalRequirements.join('\n- ')}`
+        : '',
+    ].filter(Boolean);
+
+    return {
+      style: context.style,
+      background: context.background,
+      style_description: `${attire}, ${styleDesc.expression}, ${styleDesc.styling}`,
+      background_description: `${bgDesc.setting} featuring ${bgDesc.elements}`,
+      attire,
+      expression: styleDesc.expression,
+      styling: styleDesc.styling,
+      posture: styleDesc.posture,
+      background_setting: bgDesc.setting,
+      background_elements: bgDesc.elements,
+      background_lighting: bgDesc.lighting,
+      background_mood: bgDesc.mood,
+      lighting: this.describeLighting(context, bgDesc.lighting),
+      lighting_setup: this.describeLighting(context, 'Even, professional lighting without harsh shadows'),
+      lighting_id: context.lighting || 'professional',
+      framing: this.describeComposition(context),
+      industry: this.INDUSTRY_CONTEXTS[industry as keyof typeof this.INDUSTRY_CONTEXTS],
+      industry_name: industry,
+      mood: context.mood || 'confident',
+      sections: sections.join('\n\n'),
+      use_case: '',
+    };
+  }
 
-    return `Transform this photo into a professional portrait.
+  /**
+   * Describe the chosen lighting setup, or the fallback when none was chosen
+   */
+  private static describeLighting(context: PromptContext, fallback: string): string {
+    return this.isKnown(this.LIGHTING_DESCRIPTIONS, context.lighting)
+      ? this.LIGHTING_DESCRIPTIONS[context.lighting as keyof typeof this.LIGHTING_DESCRIPTIONS]
+      : fallback;
+  }
 
-Style: ${styleDesc.attire}, ${styleDesc.expression}
-Background: ${bgDesc.setting} with ${bgDesc.lighting}
-Industry: ${industry}
+  /**
+   * Describe the chosen framing, defaulting to head-and-shoulders
+   */
+  private static describeComposition(context: PromptContext): string {
+    return this.getComposition(context).framing;
+  }
 
-Generate a high-quality professional portrait suitable for business use.`;
+  private static getComposition(context: PromptContext): { framing: string; subject: string } {
+    return this.isKnown(this.COMPOSITION_DESCRIPTIONS, context.composition)
+      ? this.COMPOSITION_DESCRIPTIONS[context.composition as keyof typeof this.COMPOSITION_DESCRIPTIONS]
+      : this.COMPOSITION_DESCRIPTIONS['head-and-shoulders'];
   }
 
   /**
-   * Build detailed prompt for high-quality generation
+   * Describe the attire: the chosen garment and color, or the style's default attire
    */
-  private static buildDetailedPrompt(context: PromptContext): string {
+  private static describeAttire(context: PromptContext): string {
     const styleDesc = this.STYLE_DESCRIPTIONS[context.style as keyof typeof this.STYLE_DESCRIPTIONS];
-    const bgDesc = this.BACKGROUND_DESCRIPTIONS[context.background as keyof typeof this.BACKGROUND_DESCRIPTIONS];
-    const industry = this.INDUSTRY_CONTEXTS[(context.industry || 'general') as keyof typeof this.INDUSTRY_CONTEXTS];
-
-    return `Transform this photo into a high-quality professional portrait.
-
-REQUIREMENTS:
-- ${styleDesc.attire} with ${styleDesc.styling}
-- ${styleDesc.expression} and ${styleDesc.posture}
-- Background: ${bgDesc.setting} featuring ${bgDesc.elements}
-- Lighting: ${bgDesc.lighting} creating a ${bgDesc.mood} atmosphere
-- Industry context: ${industry}
-- High resolution with sharp details and professional color grading
-- Maintain the person's facial features and identity
-- Remove distracting elements from the original background
-- Ensure the portrait looks natural and professional
-- Suitable for business cards, LinkedIn profiles, and professional use
-
-COMPOSITION: ${context.composition}
-MOOD: ${context.mood}
-LIGHTING: ${context.lighting}
-
-${context.additionalRequirements && context.additionalRequirements.length > 0 
-  ? `ADDITIONAL REQUIREMENTS:\n- ${context.additionalRequirements.join('\n- ')}`
-  : ''
-}
+    const garment = context.wardrobe?.garment
+      ? this.GARMENT_DESCRIPTIONS[context.wardrobe.garment]
+      : styleDesc.attire;
+    const color = context.wardrobe?.color ? this.WARDROBE_COLORS[context.wardrobe.color] : null;
 
-Generate a professional portrait that maintains the person's likeness while creating a polished, business-ready image.`;
+    return color ? `${garment} in ${color}` : garment;
   }
 
   /**
-   * Build technical prompt for precise control
+   * Build the accessories and grooming section, or an empty string if none were chosen.
+   * The attire itself is already part of the requirements.
    */
-  private static buildTechnicalPrompt(context: PromptContext): string {
-    const styleDesc = this.STYLE_DESCRIPTIONS[context.style as keyof typeof this.STYLE_DESCRIPTIONS];
-    const bgDesc = this.BACKGROUND_DESCRIPTIONS[context.background as keyof typeof this.BACKGROUND_DESCRIPTIONS];
+  private static buildWardrobeInstructions(context: PromptContext): string {
+    const wardrobe = context.wardrobe || {};
+    const accessories = wardrobe.accessories || [];
+    const lines: string[] = [];
 
-    return `PROFESSIONAL PORTRAIT GENERATION SPECIFICATIONS:
-
-INPUT ANALYSIS:
-- Maintain facial features and identity
-- Preserve natural skin tone and texture
-- Keep authentic facial expressions
-
-STYLING SPECIFICATIONS:
-- Attire: ${styleDesc.attire}
-- Expression: ${styleDesc.expression}
-- Styling: ${styleDesc.styling}
-- Posture: ${styleDesc.posture}
-
-BACKGROUND SPECIFICATIONS:
-- Setting: ${bgDesc.setting}
-- Elements: ${bgDesc.elements}
-- Lighting: ${bgDesc.lighting}
-- Mood: ${bgDesc.mood}
-
-TECHNICAL REQUIREMENTS:
-- Resolution: High resolution with sharp details
-- Color grading: Professional, natural skin tones
-- Lighting: Even, professional lighting without harsh shadows
-- Composition: ${context.composition} framing
-- Background: Clean, uncluttered, professional
-- Retouching: Subtle, natural-looking enhancements
-
-OUTPUT SPECIFICATIONS:
-- Format: High-quality digital image
-- Use case: Business cards, LinkedIn, professional profiles
-- Industry: ${context.industry || 'general business'}
-
-Generate a technically precise professional portrait meeting all specifications.`;
+    if (accessories.length > 0) {
+      lines.push(`- Accessories: ${accessories.map(accessory => this.ACCESSORY_DESCRIPTIONS[accessory]).join(', ')}`);
+    }
+    if (
+      wardrobe.garment &&
+      this.COLLARED_GARMENTS.includes(wardrobe.garment) &&
+      !accessories.includes('tie') &&
+      !accessories.includes('bow-tie')
+    ) {
+      lines.push('- Open collar, no tie');
+    }
+    if (wardrobe.glasses) {
+      lines.push(`- Glasses: ${this.GROOMING_INSTRUCTIONS.glasses[wardrobe.glasses]}`);
+    }
+    if (wardrobe.hair) {
+      lines.push(`- Hair: ${this.GROOMING_INSTRUCTIONS.hair[wardrobe.hair]}`);
+    }
+
+    return lines.length > 0 ? `WARDROBE AND GROOMING:\n${lines.join('\n')}` : '';
   }
 
   /**
-   * Build creative prompt for artistic generation
+   * Build instructions for using several photos of the person as identity references
    */
-  private static buildCreativePrompt(context: PromptContext): string {
-    const styleDesc = this.STYLE_DESCRIPTIONS[context.style as keyof typeof this.STYLE_DESCRIPTIONS];
-    const bgDesc = this.BACKGROUND_DESCRIPTIONS[context.background as keyof typeof this.BACKGROUND_DESCRIPTIONS];
+  private static buildIdentityInstructions(photoCount: number): string {
+    return `IDENTITY REFERENCES:
+- The first ${photoCount} images are all photos of the same person
+- Use them together as identity references for face shape, features, skin tone, hair and build
+- Base the pose, expression and framing on the first photo
+- Where the photos disagree, prefer the clearest, best-lit view of the face
+- Do not copy lighting, clothing or backgrounds from the reference photos
+- Portray exactly one person; never blend in features of anyone else`;
+  }
 
-    return `Create an innovative professional portrait that balances creativity with business appropriateness.
-
-CREATIVE VISION:
-- Style: ${styleDesc.attire} with a ${styleDesc.expression}
-- Background: ${bgDesc.setting} that enhances the ${bgDesc.mood} atmosphere
-- Lighting: ${bgDesc.lighting} for a ${context.mood} mood
-- Industry: ${context.industry || 'general'} professional
-
-ARTISTIC ELEMENTS:
-- Modern, contemporary approach to professional portraiture
-- Creative use of lighting and composition
-- Innovative but appropriate styling
-- Dynamic yet professional presentation
-
-TECHNICAL EXCELLENCE:
-- High resolution with artistic detail
-- Professional color grading with creative flair
-- Maintain facial features while enhancing presentation
-- Clean, purposeful background design
-
-BALANCE:
-- Creative expression within professional boundaries
-- Innovation that enhances rather than distracts
-- Artistic quality that serves business purposes
-- Modern approach to traditional professional portraiture
-
-Generate a creative professional portrait that stands out while maintaining business appropriateness.`;
+  /**
+   * Build instructions for placing the subject into an uploaded background
+   */
+  private static buildCompositingInstructions(photoCount: number): string {
+    const subject = photoCount > 1
+      ? `The first ${photoCount} images show the person to portray`
+      : 'The first image is the person to portray';
+
+    return `BACKGROUND COMPOSITING:
+- ${subject}; the last image is the background to use
+- Place the person into the background scene and keep the scene itself unchanged
+- Match the perspective, camera height and depth of field of the background photo
+- Match the direction, color temperature and softness of its lighting on the person
+- Add natural contact shadows and edge lighting so the person is grounded in the scene
+- Scale the person realistically for the scene and keep the background recognizable
+- Do not copy any people, faces or text from the background onto the subject`;
   }
 
   /**
    * Get prompt variations for different use cases
    */
   static getPromptForUseCase(
-    useCase: 'linkedin' | 'business-card' | 'website' | 'presentation' | 'general',
+    useCase: UseCase,
     context: PromptContext
   ): string {
-    const basePrompt = this.buildDetailedPrompt(context);
+    return this.renderPromptForUseCase(useCase, context).text;
+  }
+
+  /**
+   * Render a variation (detailed by default) tailored to a use case, with the
+   * template that produced it
+   */
+  static renderPromptForUseCase(
+    useCase: UseCase,
+    context: PromptContext,
+    variation: PromptVariation = 'detailed'
+  ): RenderedPrompt {
+    const fullContext = this.buildContext(
+      { style: context.style as CustomizationOptions['style'], background: context.background as CustomizationOptions['background'] },
+      context
+    );
+    const { subject } = this.getComposition(fullContext);
+    const { width, height } = OutputGeometry.getAspectRatio(useCase);
+    const orientation = width === height ? 'square' : width > height ? 'landscape' : 'portrait';
     
     const useCaseModifiers = {
       linkedin: 'Optimized for LinkedIn profile - professional, approachable, trustworthy',
@@ -270,7 +408,24 @@ Generate a creative professional portrait that stands out while maintaining busi
       general: 'General professional use - versatile, appropriate for multiple contexts',
     };
 
-    return `${basePrompt}\n\nUSE CASE: ${useCaseModifiers[useCase]}`;
+    return PromptTemplateRegistry.render(this.VARIATION_TEMPLATES[variation], {
+      ...this.buildVariables(fullContext),
+      use_case: `USE CASE: ${useCaseModifiers[useCase]}\nFRAMING: ${orientation} ${width}:${height} aspect ratio, keep the ${subject} centered with room to crop to ${width}:${height}`,
+    });
+  }
+
+  /**
+   * Build the follow-up prompt for a small edit to the previous output
+   */
+  static buildRefinementPrompt(instruction: string): string {
+    return this.renderRefinementPrompt(instruction).text;
+  }
+
+  /**
+   * Render the refinement prompt, with the template that produced it
+   */
+  static renderRefinementPrompt(instruction: string): RenderedPrompt {
+    return PromptTemplateRegistry.render('refinement', { instruction });
   }
 
   /**
@@ -291,11 +446,81 @@ Generate a creative professional portrait that stands out while maintaining busi
       errors.push(`Invalid industry: ${context.industry}`);
     }
 
+    // Mood is interpolated into every template verbatim, so only known ids may pass
+    if (context.mood !== undefined && !CUSTOMIZATION_OPTIONS.MOODS.some(mood => mood.id === context.mood)) {
+      errors.push(`Invalid mood: ${context.mood}`);
+    }
+
+    if (context.lighting !== undefined && !this.isKnown(this.LIGHTING_DESCRIPTIONS, context.lighting)) {
+      errors.push(`Invalid lighting: ${context.lighting}`);
+    }
+
+    if (context.composition !== undefined && !this.isKnown(this.COMPOSITION_DESCRIPTIONS, context.composition)) {
+      errors.push(`Invalid composition: ${context.composition}`);
+    }
+
+    if (context.wardrobe !== undefined) {
+      errors.push(...this.validateWardrobe(context.wardrobe));
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
     };
   }
+
+  /**
+   * Validate wardrobe options against the known garments, colors and accessories
+   */
+  private static validateWardrobe(wardrobe: WardrobeOptions): string[] {
+    const errors: string[] = [];
+
+    if (!wardrobe || typeof wardrobe !== 'object' || Array.isArray(wardrobe)) {
+      return ['Invalid wardrobe: must be an object'];
+    }
+
+    if (wardrobe.garment && !this.isKnown(this.GARMENT_DESCRIPTIONS, wardrobe.garment)) {
+      errors.push(`Invalid garment: ${wardrobe.garment}`);
+    }
+
+    if (wardrobe.color && !this.isKnown(this.WARDROBE_COLORS, wardrobe.color)) {
+      errors.push(`Invalid wardrobe color: ${wardrobe.color}`);
+    }
+
+    if (wardrobe.accessories !== undefined) {
+      if (!Array.isArray(wardrobe.accessories)) {
+        errors.push('Invalid accessories: must be an array');
+      } else {
+        wardrobe.accessories
+          .filter(accessory => !this.isKnown(this.ACCESSORY_DESCRIPTIONS, accessory))
+          .forEach(accessory => errors.push(`Invalid accessory: ${accessory}`));
+
+        if (new Set(wardrobe.accessories).size > WARDROBE_CONFIG.MAX_ACCESSORIES) {
+          errors.push(`Too many accessories: at most ${WARDROBE_CONFIG.MAX_ACCESSORIES} allowed`);
+        }
+        if (wardrobe.accessories.includes('tie') && wardrobe.accessories.includes('bow-tie')) {
+          errors.push('Conflicting accessories: choose either a tie or a bow tie');
+        }
+      }
+    }
+
+    if (wardrobe.glasses && !this.isKnown(this.GROOMING_INSTRUCTIONS.glasses, wardrobe.glasses)) {
+      errors.push(`Invalid glasses option: ${wardrobe.glasses}`);
+    }
+
+    if (wardrobe.hair && !this.isKnown(this.GROOMING_INSTRUCTIONS.hair, wardrobe.hair)) {
+      errors.push(`Invalid hair option: ${wardrobe.hair}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check an untrusted option ID against a description map's own keys
+   */
+  private static isKnown(map: object, key: unknown): boolean {
+    return typeof key === 'string' && Object.prototype.hasOwnProperty.call(map, key);
+  }
 }
 
 export default PromptBuilder;
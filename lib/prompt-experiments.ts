@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { env } from './env-validation';
+import { PROMPT_EXPERIMENT_CONFIG } from './constants';
+import { PromptVariation } from './prompt-builder';
+
+/**
+ * Prompt Experiments
+ * Assigns each session to a prompt variation by configurable weights, logs
+ * how its previews turned out and whether they were bought, and reports the
+ * results per variation
+ */
+
+export interface PromptExperimentAssignment {
+  experimentId: string;
+  sessionId: string;
+  variant: PromptVariation;
+}
+
+// One preview request under an assignment; stored with its generations
+export interface PromptExperimentExposure extends PromptExperimentAssignment {
+  exposureId: string;
+}
+
+export interface PromptExperimentOutcome {
+  success: boolean; // At least one candidate was generated
+  candidates: number;
+  candidatesWithWarnings: number; // Candidates with quality or processing warnings
+}
+
+export interface PromptExperimentVariantReport {
+  variant: PromptVariation;
+  weight: number; // Share of new sessions, 0 to 1
+  sessions: number;
+  previews: number;
+  successfulPreviews: number;
+  successRate: number;
+  candidates: number;
+  candidatesWithWarnings: number;
+  warningRate: number;
+  conversions: number; // Successful previews that were bought
+  conversionRate: number;
+}
+
+export interface PromptExperimentReport {
+  experimentId: string;
+  since?: number; // Oldest logged preview
+  variants: PromptExperimentVariantReport[];
+}
+
+interface ExposureLogEntry extends PromptExperimentExposure, PromptExperimentOutcome {
+  converted: boolean;
+  createdAt: number;
+}
+
+// In-memory log of experiment previews, oldest first (in production, use a database)
+const exposureLog: ExposureLogEntry[] = [];
+
+const VARIANTS: PromptVariation[] = ['basic', 'detailed', 'technical', 'creative'];
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export class PromptExperimentService {
+  /**
+   * Get the caller's session ID from its cookie, or start a new session
+   */
+  static getSession(request: NextRequest): { id: string; isNew: boolean } {
+    const cookie = request.cookies.get(PROMPT_EXPERIMENT_CONFIG.SESSION_COOKIE)?.value;
+
+    return cookie && SESSION_ID_PATTERN.test(cookie)
+      ? { id: cookie, isNew: false }
+      : { id: crypto.randomUUID(), isNew: true };
+  }
+
+  /**
+   * Set the session cookie on a response when the session is new
+   */
+  static persistSession(response: NextResponse, session: { id: string; isNew: boolean }): void {
+    if (!session.isNew) {
+      return;
+    }
+
+    response.cookies.set(PROMPT_EXPERIMENT_CONFIG.SESSION_COOKIE, session.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: PROMPT_EXPERIMENT_CONFIG.SESSION_MAX_AGE_S,
+    });
+  }
+
+  /**
+   * Assign a session to a variation. Assignment is a hash of the session and
+   * experiment IDs, so it is stable without storing it; changing the weights
+   * only moves the sessions whose bucket changes hands.
+   */
+  static assign(sessionId: string): PromptExperimentAssignment {
+    const experimentId = PROMPT_EXPERIMENT_CONFIG.ID;
+    const weights = env.getPromptExperimentConfig().weights;
+    const total = VARIANTS.reduce((sum, variant) => sum + weights[variant], 0);
+
+    const hash = createHash('sha256').update(`${experimentId}:${sessionId}`).digest();
+    let bucket = (hash.readUInt32BE(0) / 0x100000000) * total;
+
+    let variant: PromptVariation = 'detailed';
+    for (const candidate of VARIANTS) {
+      if (weights[candidate] > 0 && bucket < weights[candidate]) {
+        variant = candidate;
+        break;
+      }
+      bucket -= weights[candidate];
+    }
+
+    return { experimentId, sessionId, variant };
+  }
+
+  /**
+   * Start an exposure for one preview request under an assignment
+   */
+  static expose(assignment: PromptExperimentAssignment): PromptExperimentExposure {
+    return { ...assignment, exposureId: crypto.randomUUID() };
+  }
+
+  /**
+   * Log how an exposure's preview turned out
+   */
+  static recordPreview(exposure: PromptExperimentExposure, outcome: PromptExperimentOutcome): void {
+    exposureLog.push({
+      ...exposure,
+      ...outcome,
+      converted: false,
+      createdAt: Date.now(),
+    });
+
+    if (exposureLog.length > PROMPT_EXPERIMENT_CONFIG.LOG_LIMIT) {
+      exposureLog.splice(0, exposureLog.length - PROMPT_EXPERIMENT_CONFIG.LOG_LIMIT);
+    }
+  }
+
+  /**
+   * Mark an exposure's preview as bought. Repeat downloads count once.
+   */
+  static recordConversion(exposure: PromptExperimentExposure | undefined): boolean {
+    const entry = exposure && exposureLog.find(item => item.exposureId === exposure.exposureId);
+    if (!entry || entry.converted) {
+      return false;
+    }
+
+    entry.converted = true;
+    return true;
+  }
+
+  /**
+   * Summarize the current experiment per variation (admin function)
+   */
+  static getReport(): PromptExperimentReport {
+    const experimentId = PROMPT_EXPERIMENT_CONFIG.ID;
+    const weights = env.getPromptExperimentConfig().weights;
+    const totalWeight = VARIANTS.reduce((sum, variant) => sum + weights[variant], 0);
+    const entries = exposureLog.filter(entry => entry.experimentId === experimentId);
+    const rate = (count: number, total: number) => total > 0 ? count / total : 0;
+
+    return {
+      experimentId,
+      since: entries[0]?.createdAt,
+      variants: VARIANTS.map(variant => {
+        const previews = entries.filter(entry => entry.variant === variant);
+        const successful = previews.filter(entry => entry.success);
+        const candidates = previews.reduce((sum, entry) => sum + entry.candidates, 0);
+        const candidatesWithWarnings = previews.reduce((sum, entry) => sum + entry.candidatesWithWarnings, 0);
+        const conversions = successful.filter(entry => entry.converted).length;
+
+        return {
+          variant,
+          weight: rate(weights[variant], totalWeight),
+          sessions: new Set(previews.map(entry => entry.sessionId)).size,
+          previews: previews.length,
+          successfulPreviews: successful.length,
+          successRate: rate(successful.length, previews.length),
+          candidates,
+          candidatesWithWarnings,
+          warningRate: rate(candidatesWithWarnings, candidates),
+          conversions,
+          conversionRate: rate(conversions, successful.length),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Clear the experiment log (admin function)
+   */
+  static clearAll(): void {
+    exposureLog.length = 0;
+  }
+}
+
+export default PromptExperimentService;
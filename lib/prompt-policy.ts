@@ -0,0 +1,209 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { PromptUtils } from './ai-utils';
+import { env } from './env-validation';
+import { PROMPT_POLICY_CONFIG, REFINE_CONFIG } from './constants';
+
+/**
+ * Prompt Policy
+ * Keeps generation requests on-topic: raw prompt overrides are limited to
+ * trusted callers, user-supplied requirements are capped and stripped of
+ * instruction-injection attempts, and disallowed content is rejected
+ */
+
+export interface PromptPolicyInput {
+  prompt?: string;
+  additionalRequirements?: unknown;
+}
+
+export interface PromptPolicyOptions {
+  allowPromptOverride?: boolean; // Only for trusted callers, see isTrustedRequest()
+}
+
+export interface PromptPolicyResult {
+  success: boolean;
+  prompt?: string; // Raw override, present only for trusted callers
+  additionalRequirements: string[]; // Sanitized requirements
+  warnings: string[];
+  error?: string;
+}
+
+export interface InstructionPolicyResult {
+  success: boolean;
+  instruction?: string; // Sanitized instruction
+  warnings: string[];
+  error?: string;
+}
+
+export class PromptPolicy {
+  // Phrases that try to steer the model away from the portrait prompt
+  private static readonly INJECTION_PATTERNS: RegExp[] = [
+    /\b(ignore|disregard|forget|override)\b[^.;]*?\b(instructions?|prompts?|rules|requirements|above|previous|everything)\b[^.;]*[.;]?/gi,
+    /\b(system|developer|hidden)\s+(prompt|message|instructions?)\b/gi,
+    /\b(new|updated|real)\s+instructions?\b\s*:?/gi,
+    /\byou\s+are\s+(now|no longer)\b[^.;]*/gi,
+    /\b(instead|rather)\b\s*,?\s*(generate|create|draw|make|produce|render)\b[^.;]*/gi,
+  ];
+
+  // Prompt section headers such as "REQUIREMENTS:" opening a line. Limited to
+  // known headers so ordinary text like "CEO:" or "NOTE:" is left alone.
+  private static readonly SECTION_HEADER_PATTERN =
+    /^[\s\-*#>]*(additional requirements|requirements|instructions|system|prompt|use case|framing|wardrobe and grooming|identity references|background compositing|user|assistant)\s*:/gim;
+
+  /**
+   * Check whether a request carries the prompt override secret
+   */
+  static isTrustedRequest(request: NextRequest): boolean {
+    const secret = env.getPromptPolicyConfig().overrideSecret;
+    const provided = request.headers.get(PROMPT_POLICY_CONFIG.OVERRIDE_HEADER);
+
+    if (!secret || !provided) {
+      return false;
+    }
+
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(provided);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Apply the policy to a request's prompt override and additional requirements
+   */
+  static enforce(
+    input: PromptPolicyInput,
+    options: PromptPolicyOptions = {}
+  ): PromptPolicyResult {
+    const warnings: string[] = [];
+
+    if (input.prompt !== undefined && input.prompt !== null && input.prompt !== '') {
+      if (!options.allowPromptOverride) {
+        return this.rejection('Custom prompts are not allowed. Use the customization options instead.');
+      }
+      if (typeof input.prompt !== 'string') {
+        return this.rejection('Invalid prompt: must be a string');
+      }
+    }
+
+    const requirements = input.additionalRequirements ?? [];
+    if (!Array.isArray(requirements) || requirements.some(item => typeof item !== 'string')) {
+      return this.rejection('Invalid additionalRequirements: must be an array of strings');
+    }
+
+    if (requirements.length > PROMPT_POLICY_CONFIG.MAX_REQUIREMENTS) {
+      return this.rejection(
+        `Too many additional requirements: at most ${PROMPT_POLICY_CONFIG.MAX_REQUIREMENTS} are allowed`
+      );
+    }
+
+    const sanitized: string[] = [];
+    for (const [index, requirement] of (requirements as string[]).entries()) {
+      if (requirement.length > PROMPT_POLICY_CONFIG.MAX_REQUIREMENT_LENGTH) {
+        return this.rejection(
+          `Additional requirement ${index + 1} is too long: at most ${PROMPT_POLICY_CONFIG.MAX_REQUIREMENT_LENGTH} characters are allowed`
+        );
+      }
+
+      const contentError = this.checkContent(requirement);
+      if (contentError) {
+        return this.rejection(`Additional requirement ${index + 1} was rejected: ${contentError}`);
+      }
+
+      const cleaned = this.sanitizeRequirement(requirement);
+      if (cleaned !== this.collapseWhitespace(requirement)) {
+        warnings.push(`Removed instructions from additional requirement ${index + 1}`);
+      }
+      if (cleaned) {
+        sanitized.push(cleaned);
+      }
+    }
+
+    return {
+      success: true,
+      prompt: options.allowPromptOverride && input.prompt ? input.prompt : undefined,
+      additionalRequirements: sanitized,
+      warnings,
+    };
+  }
+
+  /**
+   * Apply the policy to a refinement instruction such as "darker suit"
+   */
+  static enforceInstruction(instruction: unknown): InstructionPolicyResult {
+    if (typeof instruction !== 'string' || !instruction.trim()) {
+      return { success: false, warnings: [], error: 'Invalid instruction: must be a non-empty string' };
+    }
+
+    if (instruction.length > REFINE_CONFIG.MAX_INSTRUCTION_LENGTH) {
+      return {
+        success: false,
+        warnings: [],
+        error: `Instruction is too long: at most ${REFINE_CONFIG.MAX_INSTRUCTION_LENGTH} characters are allowed`,
+      };
+    }
+
+    const contentError = this.checkContent(instruction);
+    if (contentError) {
+      return { success: false, warnings: [], error: `Instruction was rejected: ${contentError}` };
+    }
+
+    const cleaned = this.sanitizeRequirement(instruction);
+    if (!cleaned) {
+      return { success: false, warnings: [], error: 'Instruction was rejected: it only contained disallowed instructions' };
+    }
+
+    return {
+      success: true,
+      instruction: cleaned,
+      warnings: cleaned !== this.collapseWhitespace(instruction)
+        ? ['Removed instructions from the refinement request']
+        : [],
+    };
+  }
+
+  /**
+   * Check the final prompt sent to the model; returns an error message or null
+   */
+  static validateFinalPrompt(prompt: string): string | null {
+    if (prompt.length > PROMPT_POLICY_CONFIG.MAX_PROMPT_LENGTH) {
+      return `Prompt is too long: at most ${PROMPT_POLICY_CONFIG.MAX_PROMPT_LENGTH} characters are allowed`;
+    }
+
+    const contentError = this.checkContent(prompt);
+    return contentError ? `Prompt was rejected: ${contentError}` : null;
+  }
+
+  /**
+   * Strip injection phrases, markup and line breaks so a requirement stays a single list item
+   */
+  private static sanitizeRequirement(requirement: string): string {
+    // Headers only mean something at the start of a line, so strip them before line breaks are collapsed
+    let cleaned = this.collapseWhitespace(requirement.replace(this.SECTION_HEADER_PATTERN, ' '));
+
+    for (const pattern of this.INJECTION_PATTERNS) {
+      cleaned = cleaned.replace(pattern, ' ');
+    }
+
+    return this.collapseWhitespace(cleaned.replace(/[{}<>`#*_|\\]/g, ' '))
+      .replace(/^[\s\-.,;:]+|[\s\-,;:]+$/g, '');
+  }
+
+  private static collapseWhitespace(text: string): string {
+    return text.replace(/[\u0000-\u001f\u007f]+/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static checkContent(text: string): string | null {
+    const validation = PromptUtils.validatePrompt(text);
+    return validation.isValid ? null : validation.errors.join(', ');
+  }
+
+  private static rejection(error: string): PromptPolicyResult {
+    return {
+      success: false,
+      additionalRequirements: [],
+      warnings: [],
+      error,
+    };
+  }
+}
+
+export default PromptPolicy;
@@ -0,0 +1,15 @@
+import { PromptTemplateRegistry } from './registry';
+
+/**
+ * Prompt Templates
+ * Versioned, declarative prompt templates shared by every prompt builder
+ */
+
+export { PromptTemplateRegistry };
+export type {
+  PromptTemplate,
+  PromptTemplateFile,
+  PromptTemplateGroup,
+  PromptTemplateRef,
+  RenderedPrompt,
+} from './types';
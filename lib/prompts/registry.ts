@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import professional from './templates/professional.json';
+import executive from './templates/executive.json';
+import creative from './templates/creative.json';
+import portraitBasic from './templates/portrait-basic.json';
+import portraitDetailed from './templates/portrait-detailed.json';
+import portraitTechnical from './templates/portrait-technical.json';
+import portraitCreative from './templates/portrait-creative.json';
+import refinement from './templates/refinement.json';
+import {
+  PromptTemplate,
+  PromptTemplateFile,
+  PromptTemplateGroup,
+  PromptTemplateRef,
+  RenderedPrompt,
+} from './types';
+
+/**
+ * Prompt Template Registry
+ * Single source of every prompt sent to the model. Templates are declarative
+ * files with {placeholder} variables; each carries a version and a content
+ * hash so a generation can record exactly which template produced it.
+ */
+
+// Template files, in listing order
+const TEMPLATE_FILES = [
+  professional,
+  executive,
+  creative,
+  portraitBasic,
+  portraitDetailed,
+  portraitTechnical,
+  portraitCreative,
+  refinement,
+] as PromptTemplateFile[];
+
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+const GROUPS: PromptTemplateGroup[] = ['style', 'variation', 'refinement'];
+
+export class PromptTemplateRegistry {
+  private static templates: Map<string, PromptTemplate> | null = null;
+
+  /**
+   * Get all templates, optionally only those in one group
+   */
+  static list(group?: PromptTemplateGroup): PromptTemplate[] {
+    return Array.from(this.getTemplates().values())
+      .filter(template => !group || template.group === group);
+  }
+
+  /**
+   * Get a template by ID, or null if there is none
+   */
+  static get(id: string): PromptTemplate | null {
+    return this.getTemplates().get(id) || null;
+  }
+
+  /**
+   * Render a template with its variables. Variables the template does not
+   * declare are ignored; a declared variable may be empty but not missing.
+   */
+  static render(id: string, variables: Record<string, string | undefined>): RenderedPrompt {
+    const template = this.get(id);
+    if (!template) {
+      throw new Error(`Prompt template '${id}' not found`);
+    }
+
+    const missing = template.variables.filter(name => typeof variables[name] !== 'string');
+    if (missing.length > 0) {
+      throw new Error(`Prompt template '${id}' is missing variables: ${missing.join(', ')}`);
+    }
+
+    const text = template.template
+      .replace(PLACEHOLDER_PATTERN, (_, name: string) => variables[name] as string)
+      // Empty optional sections leave blank lines behind
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return { text, template: this.toRef(template) };
+  }
+
+  /**
+   * Get the reference recorded with generations for a template
+   */
+  static toRef(template: PromptTemplate): PromptTemplateRef {
+    return { id: template.id, version: template.version, hash: template.hash };
+  }
+
+  /**
+   * Validate a template file and compute its content hash. Throws on a
+   * malformed file so a bad template fails at startup, not mid-generation.
+   */
+  static parse(file: PromptTemplateFile): PromptTemplate {
+    const label = `Prompt template '${file?.id}'`;
+
+    if (!file?.id || typeof file.id !== 'string') {
+      throw new Error('Prompt template is missing an id');
+    }
+    if (!Number.isInteger(file.version) || file.version < 1) {
+      throw new Error(`${label} must have a positive integer version`);
+    }
+    if (!GROUPS.includes(file.group)) {
+      throw new Error(`${label} has an invalid group: ${file.group}`);
+    }
+    if (!Array.isArray(file.template) || file.template.some(line => typeof line !== 'string')) {
+      throw new Error(`${label} must be an array of lines`);
+    }
+
+    const template = file.template.join('\n');
+    const used = new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+    const undeclared = Array.from(used).filter(name => !file.variables.includes(name));
+    const unused = file.variables.filter(name => !used.has(name));
+
+    if (undeclared.length > 0) {
+      throw new Error(`${label} uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+    if (unused.length > 0) {
+      throw new Error(`${label} declares unused variables: ${unused.join(', ')}`);
+    }
+
+    const hash = createHash('sha256')
+      .update(JSON.stringify({
+        id: file.id,
+        version: file.version,
+        variables: file.variables,
+        template,
+      }))
+      .digest('hex')
+      .slice(0, 16);
+
+    return {
+      id: file.id,
+      version: file.version,
+      group: file.group,
+      name: file.name,
+      description: file.description,
+      variables: [...file.variables],
+      template,
+      hash,
+    };
+  }
+
+  private static getTemplates(): Map<string, PromptTemplate> {
+    if (!this.templates) {
+      const templates = new Map<string, PromptTemplate>();
+      for (const file of TEMPLATE_FILES) {
+        const template = this.parse(file);
+        if (templates.has(template.id)) {
+          throw new Error(`Duplicate prompt template id: ${template.id}`);
+        }
+        templates.set(template.id, template);
+      }
+      this.templates = templates;
+    }
+    return this.templates;
+  }
+}
+
+export default PromptTemplateRegistry;
@@ -0,0 +1,36 @@
+/**
+ * Prompt template types shared by the registry and its callers
+ */
+
+// 'style': one standalone prompt per portrait style
+// 'variation': PromptBuilder variations built from the full customization
+// 'refinement': follow-up edits of a previous output
+export type PromptTemplateGroup = 'style' | 'variation' | 'refinement';
+
+// Shape of a declarative template file in lib/prompts/templates
+export interface PromptTemplateFile {
+  id: string;
+  version: number; // Bump whenever the template text or variables change
+  group: PromptTemplateGroup;
+  name: string;
+  description: string;
+  variables: string[]; // Every {placeholder} the template uses
+  template: string[]; // Lines of the template, joined with newlines
+}
+
+export interface PromptTemplate extends Omit<PromptTemplateFile, 'template'> {
+  template: string;
+  hash: string; // Content hash of the id, version, variables and text
+}
+
+// Identifies the exact template that produced a prompt
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  hash: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  template: PromptTemplateRef;
+}
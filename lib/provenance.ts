@@ -0,0 +1,422 @@
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { env } from './env-validation';
+import { AI_MODELS, APP_CONFIG, PROVENANCE_CONFIG } from './constants';
+
+/**
+ * Provenance Metadata
+ * Labels outputs as AI-generated with an XMP packet carrying the IPTC
+ * digital source type, the generator, the model and the generation ID, and
+ * optionally a signed manifest in the style of C2PA. The packet is inserted
+ * into the encoded JPEG or PNG without re-encoding, so the manifest can bind
+ * to the exact bytes of the image: its content hash covers the file with the
+ * packet removed.
+ */
+
+export type ProvenanceKind = 'preview' | 'full';
+
+export interface ProvenanceInfo {
+  generationId: string;
+  kind: ProvenanceKind;
+  model?: string; // Model that generated the image, defaults to the one in AI_MODELS for the kind
+  actions?: string[]; // Edits after generation, e.g. 'c2pa.watermarked'
+}
+
+export interface ProvenanceFields {
+  digitalSourceType: string;
+  generator: string;
+  model: string;
+  generationId: string;
+  createdAt: string;
+}
+
+export interface ProvenanceManifest {
+  version: number;
+  claimGenerator: string;
+  generationId: string;
+  kind: ProvenanceKind;
+  model: string;
+  createdAt: string;
+  actions: { action: string; digitalSourceType?: string }[];
+  contentHash: { alg: 'sha256'; value: string }; // Image bytes without the XMP packet
+  keyId: string; // Fingerprint of the signing key
+  signature: string; // Base64 Ed25519 signature over the manifest without this field
+}
+
+export interface ProvenanceResult {
+  success: boolean;
+  imageData?: string; // Same base64 or data URL form as the input
+  manifest?: ProvenanceManifest;
+  error?: string;
+}
+
+export interface ProvenanceReport {
+  success: boolean;
+  found: boolean; // The image carries our XMP packet
+  fields?: ProvenanceFields;
+  manifest?: ProvenanceManifest;
+  valid: boolean; // Signed by our key and the image is unchanged since signing
+  errors: string[]; // Why the manifest is missing or invalid
+  error?: string;
+}
+
+type ImageContainer = 'jpeg' | 'png';
+
+// XMP packet placement: APP1 segment in JPEG, iTXt chunk in PNG
+const JPEG_XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+// Signing key parsed from the environment on first use
+let cachedKey: { pem: string; privateKey: KeyObject; publicKey: KeyObject; keyId: string } | null = null;
+
+export class ProvenanceService {
+  /**
+   * Embed provenance metadata, and a signed manifest when a signing key is
+   * configured, into base64 JPEG or PNG data
+   */
+  static embed(imageData: string, info: ProvenanceInfo): ProvenanceResult {
+    try {
+      const { prefix, buffer } = this.decode(imageData);
+      const container = this.detectContainer(buffer);
+      if (!container) {
+        return { success: false, error: 'Provenance metadata supports JPEG and PNG images only' };
+      }
+
+      if (this.findPacket(buffer, container)) {
+        return { success: false, error: 'Image already carries an XMP packet' };
+      }
+
+      const fields = this.createFields(info);
+      const manifest = this.createManifest(buffer, fields, info);
+      const packet = Buffer.from(this.createXmp(fields, manifest), 'utf8');
+      const output = container === 'jpeg'
+        ? this.insertJpegPacket(buffer, packet)
+        : this.insertPngPacket(buffer, packet);
+
+      return {
+        success: true,
+        imageData: prefix + output.toString('base64'),
+        manifest,
+      };
+    } catch (error) {
+      console.error('Provenance embedding error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to embed provenance metadata',
+      };
+    }
+  }
+
+  /**
+   * Extract provenance metadata from base64 image data and validate its
+   * manifest against our signing key and the image bytes
+   */
+  static read(imageData: string): ProvenanceReport {
+    try {
+      const { buffer } = this.decode(imageData);
+      const container = this.detectContainer(buffer);
+      const packet = container && this.findPacket(buffer, container);
+      if (!packet) {
+        return { success: true, found: false, valid: false, errors: ['No provenance metadata found'] };
+      }
+
+      const xmp = buffer.subarray(packet.dataStart, packet.dataEnd).toString('utf8');
+      const attribute = (name: string) => this.unescapeXml(xmp.match(new RegExp(`${name}="([^"]*)"`))?.[1] ?? '');
+
+      const fields: ProvenanceFields = {
+        digitalSourceType: attribute('Iptc4xmpExt:DigitalSourceType'),
+        generator: attribute('xmp:CreatorTool'),
+        model: attribute('Iptc4xmpExt:AISystemUsed'),
+        generationId: attribute('pb:GenerationId'),
+        createdAt: attribute('xmp:CreateDate'),
+      };
+
+      const encodedManifest = attribute('pb:Manifest');
+      if (!encodedManifest) {
+        return { success: true, found: true, fields, valid: false, errors: ['Image has no signed manifest'] };
+      }
+
+      const manifest: ProvenanceManifest = JSON.parse(Buffer.from(encodedManifest, 'base64').toString('utf8'));
+      const unpacked = Buffer.concat([buffer.subarray(0, packet.start), buffer.subarray(packet.end)]);
+
+      return {
+        success: true,
+        found: true,
+        fields,
+        manifest,
+        ...this.validateManifest(manifest, fields, unpacked),
+      };
+    } catch (error) {
+      console.error('Provenance reading error:', error);
+      return {
+        success: false,
+        found: false,
+        valid: false,
+        errors: [],
+        error: error instanceof Error ? error.message : 'Failed to read provenance metadata',
+      };
+    }
+  }
+
+  /**
+   * Build an XMP packet with the provenance fields only, for formats the
+   * packet cannot be inserted into directly; sharp writes it while encoding.
+   * Without a manifest, nothing binds the labels to the image.
+   */
+  static createXmpPacket(info: ProvenanceInfo): string {
+    return this.createXmp(this.createFields(info));
+  }
+
+  /**
+   * Get the PEM public key that verifies our manifests, for publishing
+   */
+  static getPublicKey(): string | null {
+    return this.getSigningKey()?.publicKey.export({ type: 'spki', format: 'pem' }).toString() ?? null;
+  }
+
+  private static createFields(info: ProvenanceInfo): ProvenanceFields {
+    return {
+      digitalSourceType: PROVENANCE_CONFIG.DIGITAL_SOURCE_TYPE,
+      generator: `${APP_CONFIG.AUTHOR} ${APP_CONFIG.VERSION}`,
+      model: info.model || (info.kind === 'full' ? AI_MODELS.FULL : AI_MODELS.PREVIEW),
+      generationId: info.generationId,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Build and sign the manifest for an image, or skip it without a key
+   */
+  private static createManifest(
+    buffer: Buffer,
+    fields: ProvenanceFields,
+    info: ProvenanceInfo
+  ): ProvenanceManifest | undefined {
+    const key = this.getSigningKey();
+    if (!key) {
+      return undefined;
+    }
+
+    const claim: Omit<ProvenanceManifest, 'signature'> = {
+      version: PROVENANCE_CONFIG.MANIFEST_VERSION,
+      claimGenerator: fields.generator,
+      generationId: fields.generationId,
+      kind: info.kind,
+      model: fields.model,
+      createdAt: fields.createdAt,
+      actions: [
+        { action: 'c2pa.created', digitalSourceType: fields.digitalSourceType },
+        ...(info.actions || []).map(action => ({ action })),
+      ],
+      contentHash: { alg: 'sha256', value: createHash('sha256').update(buffer).digest('base64') },
+      keyId: key.keyId,
+    };
+
+    return {
+      ...claim,
+      signature: sign(null, Buffer.from(JSON.stringify(claim)), key.privateKey).toString('base64'),
+    };
+  }
+
+  /**
+   * Check a manifest's key, signature, content hash and agreement with the XMP fields
+   */
+  private static validateManifest(
+    manifest: ProvenanceManifest,
+    fields: ProvenanceFields,
+    unpacked: Buffer
+  ): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+    const key = this.getSigningKey();
+    const { signature, ...claim } = manifest;
+
+    if (!key) {
+      errors.push('No signing key is configured to validate the manifest');
+    } else if (manifest.keyId !== key.keyId) {
+      errors.push('Manifest was signed with a different key');
+    } else if (!signature || !verify(null, Buffer.from(JSON.stringify(claim)), key.publicKey, Buffer.from(signature, 'base64'))) {
+      errors.push('Manifest signature is invalid');
+    }
+
+    if (manifest.contentHash?.value !== createHash('sha256').update(unpacked).digest('base64')) {
+      errors.push('Image has been modified since the manifest was signed');
+    }
+
+    if (manifest.generationId !== fields.generationId || manifest.model !== fields.model) {
+      errors.push('Manifest does not match the XMP fields');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Build the XMP packet. IPTC fields use the IPTC Extension namespace;
+   * the generation ID and manifest use ours.
+   */
+  private static createXmp(fields: ProvenanceFields, manifest?: ProvenanceManifest): string {
+    const manifestAttribute = manifest
+      ? `\n      pb:Manifest="${Buffer.from(JSON.stringify(manifest)).toString('base64')}"`
+      : '';
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+      xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+      xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+      xmlns:pb="${PROVENANCE_CONFIG.NAMESPACE}"
+      Iptc4xmpExt:DigitalSourceType="${this.escapeXml(fields.digitalSourceType)}"
+      Iptc4xmpExt:AISystemUsed="${this.escapeXml(fields.model)}"
+      xmp:CreatorTool="${this.escapeXml(fields.generator)}"
+      xmp:CreateDate="${fields.createdAt}"
+      pb:GenerationId="${this.escapeXml(fields.generationId)}"${manifestAttribute}/>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+  }
+
+  /**
+   * Insert an APP1 XMP segment straight after the JPEG start-of-image marker
+   */
+  private static insertJpegPacket(buffer: Buffer, packet: Buffer): Buffer {
+    const length = 2 + JPEG_XMP_HEADER.length + packet.length;
+    if (length > 0xffff) {
+      throw new Error('XMP packet is too large for a JPEG segment');
+    }
+
+    const header = Buffer.from([0xff, 0xe1, length >> 8, length & 0xff]);
+    return Buffer.concat([buffer.subarray(0, 2), header, JPEG_XMP_HEADER, packet, buffer.subarray(2)]);
+  }
+
+  /**
+   * Insert an uncompressed iTXt XMP chunk straight after the PNG header chunk
+   */
+  private static insertPngPacket(buffer: Buffer, packet: Buffer): Buffer {
+    // Keyword, null separator, compression flag and method, empty language tag and translated keyword
+    const data = Buffer.concat([Buffer.from(PNG_XMP_KEYWORD, 'latin1'), Buffer.from([0, 0, 0, 0, 0]), packet]);
+    const type = Buffer.from('iTXt', 'latin1');
+
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    type.copy(chunk, 4);
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(this.crc32(Buffer.concat([type, data])), 8 + data.length);
+
+    // Signature, then IHDR: length, type, 13 data bytes, CRC
+    const afterHeader = PNG_SIGNATURE.length + 12 + buffer.readUInt32BE(PNG_SIGNATURE.length);
+    return Buffer.concat([buffer.subarray(0, afterHeader), chunk, buffer.subarray(afterHeader)]);
+  }
+
+  /**
+   * Locate an XMP packet: the byte range of its whole segment or chunk, and of the packet text
+   */
+  private static findPacket(
+    buffer: Buffer,
+    container: ImageContainer
+  ): { start: number; end: number; dataStart: number; dataEnd: number } | null {
+    if (container === 'jpeg') {
+      // Walk the marker segments up to the start of the compressed data
+      let offset = 2;
+      while (offset + 4 <= buffer.length && buffer[offset] === 0xff && buffer[offset + 1] !== 0xda) {
+        const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+        const dataStart = offset + 4 + JPEG_XMP_HEADER.length;
+        if (buffer[offset + 1] === 0xe1 && buffer.subarray(offset + 4, dataStart).equals(JPEG_XMP_HEADER)) {
+          return { start: offset, end, dataStart, dataEnd: end };
+        }
+        offset = end;
+      }
+      return null;
+    }
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('latin1', offset + 4, offset + 8);
+      const end = offset + 12 + length;
+      if (type === 'iTXt' && buffer.toString('latin1', offset + 8, offset + 8 + PNG_XMP_KEYWORD.length + 1) === `${PNG_XMP_KEYWORD}\0`) {
+        return { start: offset, end, dataStart: offset + 8 + PNG_XMP_KEYWORD.length + 5, dataEnd: end - 4 };
+      }
+      if (type === 'IEND') {
+        break;
+      }
+      offset = end;
+    }
+    return null;
+  }
+
+  private static detectContainer(buffer: Buffer): ImageContainer | null {
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return 'jpeg';
+    }
+    if (buffer.length >= 33 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      return 'png';
+    }
+    return null;
+  }
+
+  private static decode(imageData: string): { prefix: string; buffer: Buffer } {
+    const prefix = imageData.match(/^data:image\/[a-z]+;base64,/)?.[0] ?? '';
+    return { prefix, buffer: Buffer.from(imageData.slice(prefix.length), 'base64') };
+  }
+
+  /**
+   * Parse the configured signing key, which must be Ed25519
+   */
+  private static getSigningKey(): { privateKey: KeyObject; publicKey: KeyObject; keyId: string } | null {
+    const pem = env.getProvenanceConfig().signingKey;
+    if (!pem) {
+      return null;
+    }
+
+    if (cachedKey?.pem !== pem) {
+      const privateKey = createPrivateKey(pem);
+      if (privateKey.asymmetricKeyType !== 'ed25519') {
+        throw new Error('PROVENANCE_SIGNING_KEY must be an Ed25519 private key');
+      }
+
+      const publicKey = createPublicKey(privateKey);
+      const keyId = createHash('sha256')
+        .update(publicKey.export({ type: 'spki', format: 'der' }))
+        .digest('hex')
+        .slice(0, 16);
+
+      cachedKey = { pem, privateKey, publicKey, keyId };
+    }
+
+    return cachedKey;
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static unescapeXml(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&gt;/g, '>')
+      .replace(/&lt;/g, '<')
+      .replace(/&amp;/g, '&');
+  }
+}
+
+export default ProvenanceService;
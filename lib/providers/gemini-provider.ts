@@ -0,0 +1,183 @@
+import {
+  Content,
+  FinishReason,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  MediaModality,
+  ModalityTokenCount,
+  Part,
+} from '@google/genai';
+import { TokenUsage } from '../ai-utils';
+import {
+  ImageGenerationProvider,
+  ProviderConversationTurn,
+  ProviderGenerationRequest,
+  ProviderGenerationResult,
+} from './types';
+
+/**
+ * Gemini Provider
+ * Generates portraits with Gemini 2.5 Flash Image (Nano Banana) via the official SDK
+ */
+export class GeminiProvider implements ImageGenerationProvider {
+  readonly name = 'gemini' as const;
+
+  // Finish reasons that mean the content was refused; retrying cannot help
+  private static readonly BLOCKED_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+  ];
+
+  private genAI: GoogleGenAI;
+
+  constructor(private apiKey: string) {
+    this.genAI = new GoogleGenAI({
+      apiKey,
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Call Gemini 2.5 Flash Image API using the official SDK
+   */
+  async generate(request: ProviderGenerationRequest): Promise<ProviderGenerationResult> {
+    try {
+      // Prepare the contents array for image editing; multi-turn edits replay
+      // the conversation and end with the new instruction
+      const contents: Content[] = request.history?.length
+        ? [
+            ...request.history.map(turn => ({ role: turn.role, parts: this.toParts(turn) })),
+            { role: 'user', parts: [{ text: request.prompt }] },
+          ]
+        : [{
+            role: 'user',
+            parts: [
+              { text: request.prompt },
+              {
+                inlineData: {
+                  mimeType: request.mimeType,
+                  data: request.image,
+                },
+              },
+              ...(request.referenceImages || []).map(reference => ({
+                inlineData: { mimeType: reference.mimeType, data: reference.data },
+              })),
+              ...(request.backgroundImage
+                ? [{ inlineData: { mimeType: request.backgroundImage.mimeType, data: request.backgroundImage.data } }]
+                : []),
+            ],
+          }];
+
+      // Generate content using the SDK. Aborting only stops the client waiting;
+      // Gemini finishes (and bills) the request regardless.
+      const response = await this.genAI.models.generateContent({
+        model: request.model,
+        contents: contents,
+        config: request.signal ? { abortSignal: request.signal } : undefined,
+      });
+
+      const blockReason = this.getBlockReason(response);
+      if (blockReason) {
+        throw new Error(`Request blocked by safety filters (${blockReason})`);
+      }
+
+      // Extract the generated image from the response
+      if (response.candidates && response.candidates[0] && response.candidates[0].content) {
+        const content = response.candidates[0].content;
+        
+        if (content.parts) {
+          // Look for image data in the response parts
+          const imagePart = content.parts.find((part: { inlineData?: { data?: string } }) => 
+            part.inlineData
+          );
+          
+          if (imagePart) {
+            const imageData = imagePart.inlineData?.data;
+            if (imageData) {
+              console.log('Image generated successfully, data length:', imageData.length);
+              return {
+                imageData: imageData,
+                usage: this.parseUsage(response.usageMetadata),
+              };
+            }
+          }
+        }
+      }
+
+      const finishReason = response.candidates?.[0]?.finishReason;
+      throw new Error(`No image generated in response${finishReason ? ` (finish reason: ${finishReason})` : ''}`);
+    } catch (error) {
+      console.error('Gemini SDK Error:', error);
+      throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the reason Gemini refused the prompt or the output, if it did
+   */
+  private getBlockReason(response: GenerateContentResponse): string | null {
+    if (response.promptFeedback?.blockReason) {
+      return `prompt: ${response.promptFeedback.blockReason}`;
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && GeminiProvider.BLOCKED_FINISH_REASONS.includes(finishReason)) {
+      return `finish reason: ${finishReason}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a conversation turn into Gemini content parts
+   */
+  private toParts(turn: ProviderConversationTurn): Part[] {
+    const parts: Part[] = [];
+    if (turn.text) {
+      parts.push({ text: turn.text });
+    }
+    if (turn.image) {
+      parts.push({ inlineData: { mimeType: turn.image.mimeType, data: turn.image.data } });
+    }
+    return parts;
+  }
+
+  /**
+   * Split Gemini usage metadata into prompt, input image and output token counts
+   */
+  private parseUsage(usage?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const countModality = (details: ModalityTokenCount[] | undefined, modality: MediaModality) =>
+      (details || [])
+        .filter(detail => detail.modality === modality)
+        .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+
+    const promptTokenCount = usage.promptTokenCount || 0;
+    const candidatesTokenCount = usage.candidatesTokenCount || 0;
+    const imageTokens = countModality(usage.promptTokensDetails, MediaModality.IMAGE);
+    const outputTokens = candidatesTokenCount + (usage.thoughtsTokenCount || 0);
+
+    return {
+      promptTokens: promptTokenCount - imageTokens,
+      imageTokens,
+      outputTokens,
+      // Without a per-modality breakdown, the candidates are the generated image
+      outputImageTokens: usage.candidatesTokensDetails
+        ? countModality(usage.candidatesTokensDetails, MediaModality.IMAGE)
+        : candidatesTokenCount,
+      totalTokens: usage.totalTokenCount ?? promptTokenCount + outputTokens,
+    };
+  }
+}
+
+export default GeminiProvider;
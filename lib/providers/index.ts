@@ -0,0 +1,30 @@
+import { GeminiProvider } from './gemini-provider';
+import { MockProvider } from './mock-provider';
+import { ImageGenerationProvider, ImageProviderName } from './types';
+
+/**
+ * Image Provider Factory
+ * Resolves the configured image-generation backend
+ */
+export function createImageProvider(
+  name: ImageProviderName,
+  config: { apiKey: string }
+): ImageGenerationProvider {
+  switch (name) {
+    case 'mock':
+      return new MockProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider(config.apiKey);
+  }
+}
+
+export { GeminiProvider, MockProvider };
+export type {
+  ImageGenerationProvider,
+  ImageProviderName,
+  ProviderConversationTurn,
+  ProviderGenerationRequest,
+  ProviderImage,
+  ProviderGenerationResult,
+} from './types';
@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import { CustomizationOptions } from '@/types';
+import {
+  ImageGenerationProvider,
+  ProviderGenerationRequest,
+  ProviderGenerationResult,
+} from './types';
+
+/**
+ * Mock Provider
+ * Deterministic, offline stand-in for the model. Renders the input photo over a
+ * tinted background per `background` (or the uploaded custom background), with
+ * any reference photos as thumbnails, and labels it per `style`, so each option
+ * combination produces a visibly different (but always identical) output.
+ */
+export class MockProvider implements ImageGenerationProvider {
+  readonly name = 'mock' as const;
+
+  private static readonly OUTPUT_SIZE = 1024;
+  private static readonly SUBJECT_SIZE = 768;
+  private static readonly REFERENCE_SIZE = 128;
+
+  private static readonly BACKGROUND_TINTS: Record<CustomizationOptions['background'], string> = {
+    office: '#3b5b8c',
+    studio: '#8a8f98',
+    outdoor: '#4f8a4b',
+    conference: '#7a4f8a',
+    custom: '#6b6b6b',
+  };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: ProviderGenerationRequest): Promise<ProviderGenerationResult> {
+    const size = MockProvider.OUTPUT_SIZE;
+    const tint = MockProvider.BACKGROUND_TINTS[request.options.background] || '#555555';
+    const layers: sharp.OverlayOptions[] = [];
+
+    const subject = await this.renderImage(request.image, MockProvider.SUBJECT_SIZE);
+    const offset = Math.round((size - MockProvider.SUBJECT_SIZE) / 2);
+    layers.push({ input: subject, top: offset - 48, left: offset });
+
+    const references = request.referenceImages || [];
+    for (const [index, reference] of references.entries()) {
+      const thumbnail = await this.renderImage(reference.data, MockProvider.REFERENCE_SIZE);
+      layers.push({ input: thumbnail, top: 16, left: 16 + index * (MockProvider.REFERENCE_SIZE + 16) });
+    }
+
+    layers.push({ input: Buffer.from(this.createOverlaySvg(request.options, tint, size)), top: 0, left: 0 });
+
+    const backdrop = request.backgroundImage
+      ? await this.renderImage(request.backgroundImage.data, size)
+      : null;
+
+    const canvas = backdrop
+      ? sharp(backdrop)
+      : sharp({
+          create: {
+            width: size,
+            height: size,
+            channels: 3,
+            background: tint,
+          },
+        });
+
+    const buffer = await canvas
+      .composite(layers)
+      .png()
+      .toBuffer();
+
+    return {
+      imageData: buffer.toString('base64'),
+      cost: 0, // No model call, no cost
+    };
+  }
+
+  /**
+   * Resize a photo to a square of `size` pixels. Undecodable photos fail the
+   * way Gemini rejects them, so retry and fallback handling sees the same error.
+   */
+  private async renderImage(image: string, size: number): Promise<Buffer> {
+    try {
+      const base64Data = image.replace(/^data:image\/[a-z]+;base64,/, '');
+      return await sharp(Buffer.from(base64Data, 'base64'))
+        .rotate()
+        .resize(size, size, { fit: 'cover' })
+        .png()
+        .toBuffer();
+    } catch {
+      throw new Error('Failed to generate image: Unable to process input image');
+    }
+  }
+
+  /**
+   * Create the tint wash and style label drawn over the subject
+   */
+  private createOverlaySvg(options: CustomizationOptions, tint: string, size: number): string {
+    const label = escapeXml((options.style || 'professional').toUpperCase());
+    const details = escapeXml(
+      [options.background, options.industry, options.mood, options.wardrobe?.garment].filter(Boolean).join(' · ')
+    );
+
+    return `
+      <svg width="${size}" height="${size}" xmlns="http://www.w3.org/2000/svg">
+        <rect x="0" y="0" width="${size}" height="${size}" fill="${tint}" opacity="0.25"/>
+        <rect x="0" y="${size - 160}" width="${size}" height="160" fill="${tint}" opacity="0.9"/>
+        <text x="${size / 2}" y="${size - 96}" text-anchor="middle" dominant-baseline="middle"
+              font-family="Arial, sans-serif" font-size="56" font-weight="bold" fill="#ffffff">
+          ${label}
+        </text>
+        <text x="${size / 2}" y="${size - 40}" text-anchor="middle" dominant-baseline="middle"
+              font-family="Arial, sans-serif" font-size="28" fill="#ffffff">
+          MOCK · ${details}
+        </text>
+      </svg>
+    `;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export default MockProvider;
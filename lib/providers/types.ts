@@ -0,0 +1,49 @@
+import { CustomizationOptions } from '@/types';
+import { TokenUsage } from '../ai-utils';
+
+/**
+ * Image Generation Provider Types
+ * Shared contract implemented by every image-generation backend
+ */
+
+export type ImageProviderName = 'gemini' | 'mock';
+
+export interface ProviderImage {
+  data: string; // Base64 encoded
+  mimeType: string;
+}
+
+export interface ProviderConversationTurn {
+  role: 'user' | 'model';
+  text?: string;
+  image?: ProviderImage;
+}
+
+export interface ProviderGenerationRequest {
+  prompt: string;
+  image: string; // Base64 encoded image to transform or edit
+  mimeType: string; // Actual format of `image`
+  model: string;
+  options: CustomizationOptions;
+  size: 'preview' | 'full';
+  referenceImages?: ProviderImage[]; // More photos of the same person, sent after `image`
+  backgroundImage?: ProviderImage; // Scene to composite the subject into, sent last
+  // Earlier turns of a multi-turn edit, oldest first. The last turn is the
+  // model's output being edited, so `image` is not sent again.
+  history?: ProviderConversationTurn[];
+  // Aborted when the caller stops waiting. The provider stops waiting too, but
+  // a model call already sent may still complete and be billed upstream.
+  signal?: AbortSignal;
+}
+
+export interface ProviderGenerationResult {
+  imageData: string; // Base64 encoded generated image
+  cost?: number; // Overrides token-based cost when set
+  usage?: TokenUsage; // Token counts reported by the model, if any
+}
+
+export interface ImageGenerationProvider {
+  readonly name: ImageProviderName;
+  generate(request: ProviderGenerationRequest): Promise<ProviderGenerationResult>;
+  isConfigured(): boolean;
+}
@@ -24,19 +24,44 @@ const rateLimitStore = new Map<string, RateLimitEntry>();
 
 export class RateLimitService {
   /**
-   * Check if request is within rate limits
+   * Check if request is within rate limits. With `consume: false` the
+   * check does not use up an attempt.
    */
-  static checkRateLimit(request: NextRequest): RateLimitResult {
-    const clientIP = this.getClientIP(request);
-    const now = Date.now();
-    
+  static checkRateLimit(request: NextRequest, options: { consume?: boolean } = {}): RateLimitResult {
     // More lenient rate limiting in development
     const isDevelopment = process.env.NODE_ENV === 'development';
-    const windowMs = isDevelopment ? 60 * 60 * 1000 : RATE_LIMIT_CONFIG.WINDOW_MS; // 1 hour in dev, 24 hours in prod
     const maxAttempts = isDevelopment ? 50 : RATE_LIMIT_CONFIG.MAX_ATTEMPTS_PER_IP; // 50 in dev, 3 in prod
 
+    return this.check(this.getClientIP(request), maxAttempts, options.consume ?? true);
+  }
+
+  /**
+   * Check and use up an upload screening. Screening calls a paid classifier,
+   * so it needs a generation attempt left and has its own budget: denied
+   * uploads do not charge a generation attempt.
+   */
+  static checkModerationLimit(request: NextRequest): RateLimitResult {
+    const generationLimit = this.checkRateLimit(request, { consume: false });
+    if (!generationLimit.allowed) {
+      return generationLimit;
+    }
+
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    const maxScreenings = isDevelopment ? 500 : RATE_LIMIT_CONFIG.MAX_SCREENINGS_PER_IP;
+
+    return this.check(`moderation:${this.getClientIP(request)}`, maxScreenings, true);
+  }
+
+  /**
+   * Check a key against its limit, counting the attempt when `consume` is set
+   */
+  private static check(key: string, maxAttempts: number, consume: boolean): RateLimitResult {
+    const now = Date.now();
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    const windowMs = isDevelopment ? 60 * 60 * 1000 : RATE_LIMIT_CONFIG.WINDOW_MS; // 1 hour in dev, 24 hours in prod
+
     // Get or create rate limit entry
-    let entry = rateLimitStore.get(clientIP);
+    let entry = rateLimitStore.get(key);
     
     if (!entry || now > entry.resetTime) {
       // Create new entry or reset expired entry
@@ -58,10 +83,18 @@ export class RateLimitService {
       };
     }
 
+    if (!consume) {
+      return {
+        allowed: true,
+        remaining: maxAttempts - entry.count,
+        resetTime: entry.resetTime,
+      };
+    }
+
     // Increment count
     entry.count++;
     entry.lastRequest = now;
-    rateLimitStore.set(clientIP, entry);
+    rateLimitStore.set(key, entry);
 
     // Clean up expired entries periodically
     this.cleanupExpiredEntries();
@@ -0,0 +1,151 @@
+import { RETRY_CONFIG } from './constants';
+import { ErrorUtils, GenerationAttempt } from './ai-utils';
+
+/**
+ * Retry Policy
+ * Per-request retry state for provider calls. Only errors that
+ * ErrorUtils classifies as retryable are retried, with exponential backoff
+ * plus jitter, and never past the overall deadline or once the caller's
+ * signal aborts. Each attempt gets an AbortSignal that fires at either;
+ * providers pass it on so the request stops waiting, though the model may
+ * still finish and bill the call.
+ */
+
+export interface RetryPolicyOptions {
+  maxRetries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  deadlineMs?: number;
+  signal?: AbortSignal; // Cancels the running attempt and any retries
+}
+
+export type RetryOutcome<T> =
+  | { success: true; value: T; attempts: GenerationAttempt[] }
+  | { success: false; error: Error; errorCode: string; attempts: GenerationAttempt[] };
+
+export class RetryPolicy {
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly deadlineMs: number;
+  private readonly signal?: AbortSignal;
+
+  constructor(options: RetryPolicyOptions) {
+    this.maxRetries = Math.max(0, options.maxRetries);
+    this.baseDelayMs = options.baseDelayMs ?? RETRY_CONFIG.BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? RETRY_CONFIG.MAX_DELAY_MS;
+    this.deadlineMs = options.deadlineMs ?? RETRY_CONFIG.DEADLINE_MS;
+    this.signal = options.signal;
+  }
+
+  /**
+   * Run an operation until it succeeds, fails with a non-retryable error,
+   * runs out of retries or hits the deadline
+   */
+  async execute<T>(
+    operation: (attempt: number, signal: AbortSignal) => Promise<T>
+  ): Promise<RetryOutcome<T>> {
+    const deadline = Date.now() + this.deadlineMs;
+    const attempts: GenerationAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStart = Date.now();
+
+      try {
+        const value = await this.withDeadline(signal => operation(attempt, signal), deadline);
+        attempts.push({
+          attempt,
+          startTime: attemptStart,
+          duration: Date.now() - attemptStart,
+          success: true,
+        });
+        return { success: true, value, attempts };
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        const parsed = ErrorUtils.parseAIError(error);
+        const record: GenerationAttempt = {
+          attempt,
+          startTime: attemptStart,
+          duration: Date.now() - attemptStart,
+          success: false,
+          errorCode: parsed.code,
+          error: error.message,
+          retryable: parsed.retryable,
+        };
+        attempts.push(record);
+
+        const delayMs = this.getDelay(attempt);
+        const canRetry =
+          parsed.retryable &&
+          !this.signal?.aborted &&
+          attempt <= this.maxRetries &&
+          Date.now() + delayMs < deadline;
+
+        if (!canRetry) {
+          return { success: false, error, errorCode: parsed.code, attempts };
+        }
+
+        record.delayMs = delayMs;
+        console.log(
+          `Retrying generation after ${parsed.code} (attempt ${attempt + 1}/${this.maxRetries + 1}) in ${delayMs}ms`
+        );
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: half the capped delay is fixed,
+   * the other half random, so concurrent retries spread out
+   */
+  private getDelay(attempt: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Reject, and abort the operation's signal, if it is still running at the
+   * deadline or when the caller's signal aborts
+   */
+  private async withDeadline<T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    deadline: number
+  ): Promise<T> {
+    if (this.signal?.aborted) {
+      throw new Error('Generation cancelled');
+    }
+
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let onCancel: (() => void) | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      // Reject before aborting so the race reports why, not the operation's abort error
+      const stop = (error: Error) => {
+        reject(error);
+        controller.abort(error);
+      };
+
+      timeoutId = setTimeout(
+        () => stop(new Error('Generation deadline exceeded')),
+        Math.max(0, deadline - Date.now())
+      );
+
+      onCancel = () => stop(new Error('Generation cancelled'));
+      this.signal?.addEventListener('abort', onCancel, { once: true });
+    });
+
+    try {
+      return await Promise.race([operation(controller.signal), timeout]);
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+      if (onCancel) {
+        this.signal?.removeEventListener('abort', onCancel);
+      }
+    }
+  }
+}
+
+export default RetryPolicy;
@@ -4,6 +4,7 @@
  */
 
 import sharp from 'sharp';
+import { ImagePreprocessor } from './image-preprocessing';
 
 export interface WatermarkOptions {
   text: string;
@@ -14,7 +15,21 @@ export interface WatermarkOptions {
   backgroundColor?: string;
   position: 'bottom-right' | 'bottom-center' | 'center' | 'top-right';
   padding: number;
-  pattern?: boolean;
+  pattern?: boolean; // Repeat the text diagonally across the whole image
+  patternDensity?: number; // Tiles across the shorter image side, 1 to 12
+  patternAngle?: number; // Degrees from horizontal, -90 to 90; negative rises to the right
+  patternOpacity?: number; // Opacity of the tiled text, 0 to 1
+  logo?: string; // Base64 PNG, JPEG or WebP logo shown beside the label text and tiled in the pattern
+  logoSize?: number; // Height of the label logo in pixels, defaults to 1.5x the font size
+  logoOpacity?: number; // Opacity of the tiled logo, 0 to 1
+}
+
+// Ink bounds of rendered text, relative to its origin on the baseline
+interface TextBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
 }
 
 export interface WatermarkResult {
@@ -34,8 +49,17 @@ export class WatermarkService {
     position: 'bottom-center',
     padding: 20,
     pattern: true,
+    patternDensity: 3,
+    patternAngle: -30,
+    patternOpacity: 0.3,
+    logoOpacity: 0.2,
   };
 
+  private static readonly MAX_LOGO_BYTES = 1024 * 1024; // 1MB
+
+  // Measured text by font, size and text; labels repeat, so this stays small
+  private static readonly textBoxCache = new Map<string, TextBox>();
+
   /**
    * Add watermark to base64 image data
    * Always uses server-side watermarking for security
@@ -46,7 +70,15 @@ export class WatermarkService {
   ): Promise<WatermarkResult> {
     try {
       const opts = { ...this.DEFAULT_OPTIONS, ...options };
-      
+
+      const validation = this.validateOptions(opts);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid watermark options: ${validation.errors.join('; ')}`,
+        };
+      }
+
       // Always use server-side watermarking for security
       return this.addWatermarkServer(imageData, opts);
 
@@ -75,19 +107,20 @@ export class WatermarkService {
       const metadata = await sharp(imageBuffer).metadata();
       const { width = 512, height = 512 } = metadata;
 
-      // Create watermark text SVG
-      const watermarkSvg = this.createWatermarkSvg(options, width, height);
+      // Apply watermark using Sharp: the tiled pattern first, then the label on top
+      const layers: sharp.OverlayOptions[] = [];
+
+      if (options.pattern) {
+        layers.push({
+          input: await this.createPatternTile(options, width, height),
+          tile: true,
+        });
+      }
+
+      layers.push(await this.createLabel(options, width, height));
 
-      // Apply watermark using Sharp
-      const watermarkPos = this.calculateServerPosition(width, options.position, options.fontSize);
       const watermarkedBuffer = await sharp(imageBuffer)
-        .composite([
-          {
-            input: Buffer.from(watermarkSvg),
-            top: watermarkPos.y,
-            left: watermarkPos.x,
-          }
-        ])
+        .composite(layers)
         .png()
         .toBuffer();
 
@@ -110,61 +143,262 @@ export class WatermarkService {
   }
 
   /**
-   * Create SVG watermark for server-side processing
+   * Create the label layer: the text, and the logo when there is one, on a
+   * background box sized from the measured text and placed inside the image
    */
-  private static createWatermarkSvg(options: WatermarkOptions, imageWidth: number, imageHeight: number): string {
-    const { text, fontSize, color, backgroundColor, opacity, position } = options;
-    
-    // Calculate text dimensions (approximate)
-    const textWidth = text.length * fontSize * 0.6;
-    const textHeight = fontSize * 1.2;
-    
-    // Calculate position
-    const pos = this.calculateServerPosition(imageWidth, position, fontSize);
-    
+  private static async createLabel(
+    options: WatermarkOptions,
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<sharp.OverlayOptions> {
+    const { text, fontFamily, color, backgroundColor, opacity, position, padding } = options;
+    const available = Math.max(1, imageWidth - padding * 2);
+
+    // Shrink the font until the label fits between the side margins
+    let fontSize = options.fontSize;
+    let layout = await this.layoutLabel(options, fontSize);
+    while (layout.width > available && fontSize > 6) {
+      fontSize = Math.max(6, Math.floor(fontSize * (available / layout.width)));
+      layout = await this.layoutLabel(options, fontSize);
+    }
+
+    if (layout.width > imageWidth || layout.height > imageHeight) {
+      throw new Error(`Image is too small for the watermark (${imageWidth}x${imageHeight})`);
+    }
+
+    const { width, height, inset, gap, textBox, logo } = layout;
+    const textLeft = inset.x + (logo ? logo.width + gap : 0);
+    const textTop = Math.round((height - textBox.height) / 2);
+
+    const logoSvg = logo
+      ? `<image href="data:image/png;base64,${logo.buffer.toString('base64')}"
+                x="${inset.x}" y="${Math.round((height - logo.height) / 2)}"
+                width="${logo.width}" height="${logo.height}"/>`
+      : '';
+
     const svg = `
-      <svg width="${imageWidth}" height="${imageHeight}" xmlns="http://www.w3.org/2000/svg">
-        ${backgroundColor ? `
-          <rect x="${pos.x - textWidth/2 - 10}" y="${pos.y - textHeight/2 - 5}" 
-                width="${textWidth + 20}" height="${textHeight + 10}" 
-                fill="${backgroundColor}" opacity="${opacity}" rx="5"/>
-        ` : ''}
-        <text x="${pos.x}" y="${pos.y}" 
-              text-anchor="middle" dominant-baseline="middle"
-              font-family="Arial, sans-serif" 
-              font-size="${fontSize}" 
+      <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+        <g opacity="${opacity}">
+          ${backgroundColor ? `<rect width="${width}" height="${height}" rx="${Math.round(fontSize / 4)}" fill="${this.escapeXml(backgroundColor)}"/>` : ''}
+          ${logoSvg}
+          <text x="${textLeft - textBox.left}" y="${textTop - textBox.top}"
+                font-family="${this.escapeXml(fontFamily)}"
+                font-size="${fontSize}"
+                font-weight="bold"
+                fill="${this.escapeXml(color)}">${this.escapeXml(text)}</text>
+        </g>
+      </svg>
+    `;
+
+    const { left, top } = this.calculatePosition(position, padding, { width: imageWidth, height: imageHeight }, { width, height });
+
+    return {
+      input: Buffer.from(svg),
+      left,
+      top,
+    };
+  }
+
+  /**
+   * Size the label box for a font size: the measured text, the logo scaled
+   * to the text, and an inset proportional to the font
+   */
+  private static async layoutLabel(options: WatermarkOptions, fontSize: number): Promise<{
+    width: number;
+    height: number;
+    inset: { x: number; y: number };
+    gap: number;
+    textBox: TextBox;
+    logo?: { buffer: Buffer; width: number; height: number };
+  }> {
+    const textBox = await this.measureText(options.text, options.fontFamily, fontSize);
+    const inset = { x: Math.round(fontSize * 0.5), y: Math.round(fontSize * 0.3) };
+    const gap = Math.round(fontSize * 0.4);
+
+    // The logo shrinks with the font when the label has to fit a narrow image
+    const logoHeight = Math.max(1, Math.round((options.logoSize ?? options.fontSize * 1.5) * (fontSize / options.fontSize)));
+    const logo = options.logo
+      ? await this.loadLogo(options.logo, logoHeight * 4, logoHeight)
+      : undefined;
+
+    const contentWidth = textBox.width + (logo ? logo.width + gap : 0);
+    const contentHeight = Math.max(textBox.height, logo?.height ?? 0);
+
+    return {
+      width: contentWidth + inset.x * 2,
+      height: contentHeight + inset.y * 2,
+      inset,
+      gap,
+      textBox,
+      logo,
+    };
+  }
+
+  /**
+   * Measure the ink box of bold text as the SVG renderer draws it with the
+   * installed fonts. Left and top are relative to the text origin on the
+   * baseline, so top is negative.
+   */
+  private static async measureText(text: string, fontFamily: string, fontSize: number): Promise<TextBox> {
+    const key = `${fontFamily}|${fontSize}|${text}`;
+    const cached = this.textBoxCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // Draw well inside a generous canvas, then trim the empty margin around the ink
+    const origin = { x: fontSize * 2, y: fontSize * 3 };
+    const svg = `
+      <svg width="${Math.ceil(text.length * fontSize * 1.2 + origin.x * 2)}" height="${fontSize * 5}" xmlns="http://www.w3.org/2000/svg">
+        <rect width="100%" height="100%" fill="#ffffff"/>
+        <text x="${origin.x}" y="${origin.y}"
+              font-family="${this.escapeXml(fontFamily)}"
+              font-size="${fontSize}"
               font-weight="bold"
-              fill="${color}" 
-              opacity="${opacity}">
-          ${text}
-        </text>
+              fill="#000000">${this.escapeXml(text)}</text>
       </svg>
     `;
-    
-    return svg;
+
+    let box: TextBox;
+    try {
+      const { info } = await sharp(Buffer.from(svg))
+        .trim({ background: '#ffffff' })
+        .toBuffer({ resolveWithObject: true });
+
+      box = {
+        left: -(info.trimOffsetLeft ?? 0) - origin.x,
+        top: -(info.trimOffsetTop ?? 0) - origin.y,
+        width: info.width,
+        height: info.height,
+      };
+    } catch {
+      // Nothing to trim around, e.g. only spaces; fall back to an estimate
+      box = { left: 0, top: -Math.round(fontSize * 0.8), width: Math.ceil(text.length * fontSize * 0.6), height: fontSize };
+    }
+
+    if (this.textBoxCache.size >= 100) {
+      this.textBoxCache.clear();
+    }
+    this.textBoxCache.set(key, box);
+
+    return box;
+  }
+
+  /**
+   * Decode a base64 logo and scale it to fit a box, keeping its aspect ratio
+   */
+  private static async loadLogo(
+    logo: string,
+    maxWidth: number,
+    maxHeight: number
+  ): Promise<{ buffer: Buffer; width: number; height: number }> {
+    const buffer = await sharp(Buffer.from(logo.replace(/^data:image\/[a-z+]+;base64,/, ''), 'base64'))
+      .resize(Math.max(1, Math.round(maxWidth)), Math.max(1, Math.round(maxHeight)), { fit: 'inside' })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    return { buffer: buffer.data, width: buffer.info.width, height: buffer.info.height };
   }
 
   /**
-   * Calculate watermark position for server-side processing
+   * Create one tile of the diagonal pattern. Sharp repeats it across the
+   * image, so every crop of more than a tile still carries the text. The
+   * optional logo sits on the tile edges and joins up between tiled rows.
    */
-  private static calculateServerPosition(imageSize: number, position: WatermarkOptions['position'], fontSize: number): { x: number; y: number } {
-    const padding = 20;
-    const textHeight = fontSize * 1.2;
-    
-    switch (position) {
-      case 'bottom-center':
-        return { x: imageSize / 2, y: imageSize - padding - textHeight / 2 };
-      case 'bottom-right':
-        return { x: imageSize - padding, y: imageSize - padding - textHeight / 2 };
-      case 'top-right':
-        return { x: imageSize - padding, y: padding + textHeight / 2 };
-      case 'center':
-        return { x: imageSize / 2, y: imageSize / 2 };
-      default:
-        return { x: imageSize / 2, y: imageSize - padding - textHeight / 2 };
+  private static async createPatternTile(
+    options: WatermarkOptions,
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<Buffer> {
+    const density = options.patternDensity ?? this.DEFAULT_OPTIONS.patternDensity!;
+    const angle = options.patternAngle ?? this.DEFAULT_OPTIONS.patternAngle!;
+    const opacity = options.patternOpacity ?? this.DEFAULT_OPTIONS.patternOpacity!;
+    const logoOpacity = options.logoOpacity ?? this.DEFAULT_OPTIONS.logoOpacity!;
+
+    const tileSize = Math.max(32, Math.round(Math.min(imageWidth, imageHeight) / density));
+    const center = tileSize / 2;
+    const radians = (Math.abs(angle) * Math.PI) / 180;
+
+    // Keep the rotated text inside the tile, leaving room for the logo when there is one
+    const span = (tileSize / Math.max(Math.cos(radians), Math.sin(radians))) * (options.logo ? 0.6 : 0.85);
+    let fontSize = Math.max(6, Math.min(options.fontSize, tileSize * 0.2));
+    const measured = await this.measureText(options.text, options.fontFamily, fontSize);
+    if (measured.width > span) {
+      fontSize = Math.max(6, Math.floor(fontSize * (span / measured.width)));
     }
+
+    let logoSvg = '';
+    if (options.logo) {
+      const logoSize = Math.round(tileSize * 0.35);
+      const logo = await this.loadLogo(options.logo, logoSize, logoSize);
+      const href = `data:image/png;base64,${logo.buffer.toString('base64')}`;
+
+      // Halves on opposite edges, away from the text, form whole logos once tiled
+      const positions = Math.abs(angle) <= 45
+        ? [[center - logo.width / 2, -logo.height / 2], [center - logo.width / 2, tileSize - logo.height / 2]]
+        : [[-logo.width / 2, center - logo.height / 2], [tileSize - logo.width / 2, center - logo.height / 2]];
+
+      logoSvg = positions
+        .map(([x, y]) => `<image href="${href}" x="${x}" y="${y}" width="${logo.width}" height="${logo.height}" opacity="${logoOpacity}"/>`)
+        .join('');
+    }
+
+    const svg = `
+      <svg width="${tileSize}" height="${tileSize}" xmlns="http://www.w3.org/2000/svg">
+        ${logoSvg}
+        <text x="${center}" y="${center}"
+              transform="rotate(${angle} ${center} ${center})"
+              text-anchor="middle" dominant-baseline="middle"
+              font-family="${this.escapeXml(options.fontFamily)}"
+              font-size="${fontSize}"
+              font-weight="bold"
+              fill="#ffffff" fill-opacity="${opacity}"
+              stroke="#000000" stroke-opacity="${opacity}" stroke-width="${Math.max(0.5, fontSize / 24)}"
+              paint-order="stroke">${this.escapeXml(options.text)}</text>
+      </svg>
+    `;
+
+    return sharp(Buffer.from(svg)).png().toBuffer();
   }
 
+  /**
+   * Escape text for use in SVG markup
+   */
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Calculate the top-left corner of the label, keeping it inside the image
+   */
+  private static calculatePosition(
+    position: WatermarkOptions['position'],
+    padding: number,
+    image: { width: number; height: number },
+    label: { width: number; height: number }
+  ): { left: number; top: number } {
+    const centerX = (image.width - label.width) / 2;
+    const rightX = image.width - padding - label.width;
+    const bottomY = image.height - padding - label.height;
+
+    const corner = {
+      'bottom-center': { left: centerX, top: bottomY },
+      'bottom-right': { left: rightX, top: bottomY },
+      'top-right': { left: rightX, top: padding },
+      'center': { left: centerX, top: (image.height - label.height) / 2 },
+    }[position] ?? { left: centerX, top: bottomY };
+
+    // Sharp rejects layers that reach outside the image or sit at fractional offsets
+    return {
+      left: Math.round(Math.min(Math.max(corner.left, 0), Math.max(image.width - label.width, 0))),
+      top: Math.round(Math.min(Math.max(corner.top, 0), Math.max(image.height - label.height, 0))),
+    };
+  }
 
   /**
    * Create preview watermark (for 512x512 images)
@@ -182,6 +416,9 @@ export class WatermarkService {
       color: 'rgba(0, 0, 0, 0.8)',
       padding: 20,
       pattern: true,
+      patternDensity: 3,
+      patternAngle: -30,
+      patternOpacity: 0.3,
     });
   }
 
@@ -206,22 +443,64 @@ export class WatermarkService {
   static validateOptions(options: Partial<WatermarkOptions>): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
+    if (options.text !== undefined && !options.text.trim()) {
+      errors.push('Watermark text must not be empty');
+    }
+
     if (options.text && options.text.length > 100) {
       errors.push('Watermark text too long (max 100 characters)');
     }
 
-    if (options.opacity && (options.opacity < 0 || options.opacity > 1)) {
+    if (options.opacity !== undefined && (options.opacity < 0 || options.opacity > 1)) {
       errors.push('Opacity must be between 0 and 1');
     }
 
-    if (options.fontSize && (options.fontSize < 8 || options.fontSize > 72)) {
+    if (options.fontSize !== undefined && (options.fontSize < 8 || options.fontSize > 72)) {
       errors.push('Font size must be between 8 and 72');
     }
 
-    if (options.padding && options.padding < 0) {
+    if (options.fontFamily !== undefined && !options.fontFamily.trim()) {
+      errors.push('Font family must not be empty');
+    }
+
+    if (options.position !== undefined && !['bottom-right', 'bottom-center', 'center', 'top-right'].includes(options.position)) {
+      errors.push('Position must be one of: bottom-right, bottom-center, center, top-right');
+    }
+
+    if (options.padding !== undefined && options.padding < 0) {
       errors.push('Padding must be non-negative');
     }
 
+    if (options.patternDensity !== undefined && (options.patternDensity < 1 || options.patternDensity > 12)) {
+      errors.push('Pattern density must be between 1 and 12');
+    }
+
+    if (options.patternAngle !== undefined && (options.patternAngle < -90 || options.patternAngle > 90)) {
+      errors.push('Pattern angle must be between -90 and 90 degrees');
+    }
+
+    if (options.patternOpacity !== undefined && (options.patternOpacity < 0 || options.patternOpacity > 1)) {
+      errors.push('Pattern opacity must be between 0 and 1');
+    }
+
+    if (options.logoOpacity !== undefined && (options.logoOpacity < 0 || options.logoOpacity > 1)) {
+      errors.push('Logo opacity must be between 0 and 1');
+    }
+
+    if (options.logoSize !== undefined && (options.logoSize < 8 || options.logoSize > 256)) {
+      errors.push('Logo size must be between 8 and 256 pixels');
+    }
+
+    if (options.logo !== undefined) {
+      const logo = Buffer.from(options.logo.replace(/^data:image\/[a-z+]+;base64,/, ''), 'base64');
+
+      if (!ImagePreprocessor.detectFormat(logo)) {
+        errors.push('Logo must be a PNG, JPEG or WebP image');
+      } else if (logo.length > this.MAX_LOGO_BYTES) {
+        errors.push('Logo too large (max 1MB)');
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -15,13 +15,26 @@ export interface UploadedImage {
 }
 
 export interface CustomizationOptions {
-  background: 'office' | 'studio' | 'outdoor' | 'conference';
+  background: 'office' | 'studio' | 'outdoor' | 'conference' | 'custom'; // 'custom' composites into an uploaded background photo
   style: 'professional' | 'casual' | 'executive' | 'creative';
   industry?: 'technology' | 'finance' | 'healthcare' | 'legal' | 'education' | 'consulting' | 'marketing' | 'sales' | 'general';
   mood?: 'confident' | 'friendly' | 'authoritative' | 'approachable';
+  lighting?: 'rembrandt' | 'butterfly' | 'high-key' | 'low-key' | 'natural-window'; // Defaults to the background's lighting
+  composition?: 'tight-headshot' | 'head-and-shoulders' | 'half-body'; // Defaults to head-and-shoulders
+  wardrobe?: WardrobeOptions;
   additionalRequirements?: string[];
 }
 
+export interface WardrobeOptions {
+  garment?: 'suit' | 'blazer' | 'dress-shirt' | 'blouse' | 'sweater' | 'polo' | 'scrubs' | 'lab-coat'; // Overrides the style's attire
+  color?: 'navy' | 'charcoal' | 'black' | 'gray' | 'white' | 'light-blue' | 'beige' | 'burgundy' | 'teal';
+  accessories?: Array<'tie' | 'bow-tie' | 'pocket-square' | 'name-badge' | 'stethoscope' | 'jewelry'>;
+  glasses?: 'keep' | 'remove';
+  hair?: 'as-is' | 'tidy';
+}
+
+export type UseCase = 'linkedin' | 'business-card' | 'website' | 'presentation' | 'general';
+
 export interface GenerationRequest {
   imageId: string;
   customization: CustomizationOptions;
@@ -126,9 +139,12 @@ export interface EnvConfig {
 export interface PhotoUploadProps {
   onUpload: (image: UploadedImage) => void;
   onError: (error: string) => void;
+  onRemove?: (imageId: string) => void;
   maxSize?: number;
   acceptedTypes?: string[];
+  maxFiles?: number;
   disabled?: boolean;
+  title?: string;
 }
 
 export interface CustomizationOptionsProps {
@@ -147,6 +163,7 @@ export interface PreviewImageProps {
 
 export interface PaymentFormProps {
   amount: number;
+  generationId: string;
   onSuccess: (payment: PaymentResponse) => void;
   onError: (error: string) => void;
   disabled?: boolean;